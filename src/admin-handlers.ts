@@ -0,0 +1,539 @@
+import { stripe } from './stripe-client';
+import { successResponse, errorResponse, formatZodError } from './responses';
+import { formatPrice, roundMoney, toMinorUnits } from './currency';
+import {
+  createOfferingSchema,
+  updateOfferingSchema,
+  stripeEventsQuerySchema,
+  outboxQuerySchema,
+  offeringsCacheInvalidationSchema,
+  createPromoCodeSchema,
+  createPackageSchema,
+} from './validation';
+import {
+  fetchOfferingById,
+  findBookingsByOffering,
+  createOfferingRecord,
+  updateOfferingRecord,
+  deleteOfferingRecord,
+} from './ghl';
+import { getStripeEvent, getStoredStripeEvent, listStripeEvents } from './stripe-events';
+import { processStripeEvent } from './stripe-handlers';
+import { listOutboxItems, getOutboxItem, retryOutboxItem } from './outbox';
+import { createPromoCode, deactivatePromoCode, getPromoCode, listPromoCodes } from './promo-codes';
+import { createPackage, deactivatePackage, getPackage, listPackages } from './packages';
+import {
+  invalidateOffering,
+  invalidateYearGroup,
+  invalidateAllOfferings,
+  verifyInvalidationSignature,
+} from './offerings-cache';
+import type {
+  AdminPackageListResponse,
+  DeleteOfferingResponse,
+  OfferingInput,
+  OfferingsCacheInvalidationResponse,
+  OutboxListResponse,
+  PromoCodeListResponse,
+  StripeEventListResponse,
+  WorkshopOffering,
+} from './types';
+import { AVAILABILITY, ERROR_CODES, OUTBOX_STATUS, STRIPE_EVENT_STATUS } from './types';
+
+/**
+ * Creates a Stripe Price for the offering's current price. Stripe prices are
+ * immutable, so a repriced offering gets a new Price on its existing Product;
+ * the caller archives the old one once the offering points at the new one.
+ */
+async function createStripePrice(offering: WorkshopOffering): Promise<string> {
+  let product: string | undefined;
+
+  if (offering.stripePriceId) {
+    const previous = await stripe.prices.retrieve(offering.stripePriceId);
+    product = typeof previous.product === 'string' ? previous.product : previous.product.id;
+  }
+
+  if (!product) {
+    const created = await stripe.products.create({
+      name: offering.offering,
+      description: `${offering.subject} - ${offering.workshopDate} ${offering.sessionTime}`.trim(),
+      metadata: { offeringId: offering.id },
+    });
+    product = created.id;
+  }
+
+  const price = await stripe.prices.create({
+    product,
+    currency: offering.currency,
+    unit_amount: toMinorUnits(offering.price, offering.currency),
+    metadata: { offeringId: offering.id },
+  });
+
+  return price.id;
+}
+
+/** A failed archive leaves an unused Price active in Stripe, which is harmless, so it is only logged */
+async function archiveStripePrice(priceId: string): Promise<void> {
+  try {
+    await stripe.prices.update(priceId, { active: false });
+  } catch (error) {
+    console.error(`Admin: Failed to archive Stripe price ${priceId}:`, error);
+  }
+}
+
+export async function handleCreateOffering(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = createOfferingSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const { createStripePrice: withStripePrice, ...fields } = parsed.data;
+    const input: OfferingInput = { ...fields, priceLabel: formatPrice(fields.price, fields.currency) };
+
+    let offering = await createOfferingRecord(input);
+    invalidateOffering(offering.id);
+    console.log(`Admin: Offering ${offering.id} created`);
+
+    if (withStripePrice && !offering.stripePriceId) {
+      try {
+        const stripePriceId = await createStripePrice(offering);
+        await updateOfferingRecord(offering.id, { stripePriceId });
+        offering = { ...offering, stripePriceId };
+      } catch (error) {
+        // Nothing refers to the new offering yet, so it is removed rather than
+        // left without the price that was asked for, and the request can be retried
+        try {
+          await deleteOfferingRecord(offering.id);
+          console.log(`Admin: Offering ${offering.id} removed after its Stripe price failed`);
+        } catch (deleteError) {
+          console.error(`Admin: Failed to remove offering ${offering.id} after its Stripe price failed:`, deleteError);
+        }
+        throw error;
+      } finally {
+        invalidateOffering(offering.id);
+      }
+    }
+
+    return successResponse(offering, 201);
+  } catch (error) {
+    console.error('Error creating offering:', error);
+    return errorResponse(
+      ERROR_CODES.CREATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to create offering',
+      500
+    );
+  }
+}
+
+export async function handleUpdateOffering(request: Request, offeringId: string): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = updateOfferingSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const existing = await fetchOfferingById(offeringId);
+
+    if (!existing) {
+      return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, 'Offering not found', 404);
+    }
+
+    const { createStripePrice: withStripePrice, ...update } = parsed.data;
+    const offering: WorkshopOffering = { ...existing, ...update };
+
+    if (offering.depositAmount >= offering.price) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'depositAmount: Deposit must be less than the price');
+    }
+    const changes: Partial<OfferingInput> = { ...update };
+
+    // A Stripe price that no longer matches would fail every checkout with
+    // PRICE_MISMATCH, so repricing an offering that has one always replaces it.
+    const priceChanged =
+      (update.price !== undefined && update.price !== existing.price) ||
+      (update.currency !== undefined && update.currency !== existing.currency);
+
+    if (priceChanged) {
+      changes.priceLabel = formatPrice(offering.price, offering.currency);
+      offering.priceLabel = changes.priceLabel;
+    }
+    const explicitPriceId = update.stripePriceId !== undefined;
+    const replacedPriceId = !explicitPriceId && priceChanged ? existing.stripePriceId : undefined;
+
+    if (replacedPriceId || (!explicitPriceId && withStripePrice && !existing.stripePriceId)) {
+      changes.stripePriceId = await createStripePrice(offering);
+      offering.stripePriceId = changes.stripePriceId;
+    }
+
+    await updateOfferingRecord(offeringId, changes);
+    invalidateOffering(offeringId);
+    console.log(`Admin: Offering ${offeringId} updated (${Object.keys(changes).join(', ')})`);
+
+    // Only archived once the offering points at its replacement, so a failed
+    // update never leaves the offering on a price checkout can't use
+    if (replacedPriceId) {
+      await archiveStripePrice(replacedPriceId);
+    }
+
+    return successResponse(offering);
+  } catch (error) {
+    console.error('Error updating offering:', error);
+    return errorResponse(
+      ERROR_CODES.UPDATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to update offering',
+      500
+    );
+  }
+}
+
+export async function handleDeleteOffering(request: Request, offeringId: string): Promise<Response> {
+  try {
+    const offering = await fetchOfferingById(offeringId);
+
+    if (!offering) {
+      return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, 'Offering not found', 404);
+    }
+
+    // Bookings copy offering details but still link back by ID, so an offering
+    // that has ever been booked is only deactivated.
+    const bookings = await findBookingsByOffering(offeringId);
+
+    if (bookings.length > 0) {
+      await updateOfferingRecord(offeringId, { availability: AVAILABILITY.INACTIVE });
+      invalidateOffering(offeringId);
+      console.log(`Admin: Offering ${offeringId} deactivated (${bookings.length} bookings)`);
+
+      return successResponse<DeleteOfferingResponse>({
+        id: offeringId,
+        deleted: false,
+        availability: AVAILABILITY.INACTIVE,
+      });
+    }
+
+    await deleteOfferingRecord(offeringId);
+    invalidateOffering(offeringId);
+    console.log(`Admin: Offering ${offeringId} deleted`);
+
+    if (offering.stripePriceId) {
+      await stripe.prices.update(offering.stripePriceId, { active: false });
+    }
+
+    return successResponse<DeleteOfferingResponse>({
+      id: offeringId,
+      deleted: true,
+      availability: offering.availability,
+    });
+  } catch (error) {
+    console.error('Error deleting offering:', error);
+    return errorResponse(
+      ERROR_CODES.DELETE_ERROR,
+      error instanceof Error ? error.message : 'Failed to delete offering',
+      500
+    );
+  }
+}
+
+export async function handleListStripeEvents(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const parsed = stripeEventsQuerySchema.safeParse({
+      status: url.searchParams.get('status') || undefined,
+      type: url.searchParams.get('type') || undefined,
+      limit: url.searchParams.get('limit') || undefined,
+    });
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    return successResponse<StripeEventListResponse>({ events: listStripeEvents(parsed.data) });
+  } catch (error) {
+    console.error('Error listing Stripe events:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to list Stripe events',
+      500
+    );
+  }
+}
+
+/** Reprocesses a failed event from its stored payload without waiting for Stripe to retry it */
+export async function handleReplayStripeEvent(eventId: string): Promise<Response> {
+  const entry = getStripeEvent(eventId);
+  const event = entry && getStoredStripeEvent(eventId);
+
+  if (!entry || !event) {
+    return errorResponse(ERROR_CODES.EVENT_NOT_FOUND, 'Stripe event not found', 404);
+  }
+
+  if (entry.status !== STRIPE_EVENT_STATUS.FAILED) {
+    return errorResponse(
+      ERROR_CODES.EVENT_NOT_REPLAYABLE,
+      `Only failed events can be replayed (status: ${entry.status})`,
+      409
+    );
+  }
+
+  try {
+    const result = await processStripeEvent(event);
+    console.log(`Admin: Stripe event ${eventId} replayed`);
+    return successResponse(result);
+  } catch (error) {
+    console.error(`Error replaying Stripe event ${eventId}:`, error);
+    return errorResponse(
+      ERROR_CODES.EVENT_REPLAY_FAILED,
+      error instanceof Error ? error.message : 'Failed to replay Stripe event',
+      500
+    );
+  }
+}
+
+export async function handleListOutbox(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const parsed = outboxQuerySchema.safeParse({
+      status: url.searchParams.get('status') || undefined,
+      limit: url.searchParams.get('limit') || undefined,
+    });
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    return successResponse<OutboxListResponse>({ items: listOutboxItems(parsed.data) });
+  } catch (error) {
+    console.error('Error listing outbox:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to list outbox',
+      500
+    );
+  }
+}
+
+/** Requeues a dead-lettered GHL notification for immediate delivery */
+export async function handleRetryOutboxItem(itemId: string): Promise<Response> {
+  const id = Number(itemId);
+  const item = Number.isInteger(id) ? getOutboxItem(id) : null;
+
+  if (!item) {
+    return errorResponse(ERROR_CODES.OUTBOX_ITEM_NOT_FOUND, 'Outbox item not found', 404);
+  }
+
+  if (item.status !== OUTBOX_STATUS.DEAD) {
+    return errorResponse(
+      ERROR_CODES.OUTBOX_ITEM_NOT_RETRYABLE,
+      `Only dead-lettered items can be retried (status: ${item.status})`,
+      409
+    );
+  }
+
+  console.log(`Admin: Outbox item ${id} requeued`);
+  return successResponse(retryOutboxItem(id));
+}
+
+export async function handleListPromoCodes(): Promise<Response> {
+  try {
+    return successResponse<PromoCodeListResponse>({ promoCodes: listPromoCodes() });
+  } catch (error) {
+    console.error('Error listing promo codes:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to list promo codes',
+      500
+    );
+  }
+}
+
+export async function handleCreatePromoCode(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = createPromoCodeSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const promoCode = createPromoCode(parsed.data);
+
+    if (!promoCode) {
+      return errorResponse(ERROR_CODES.PROMO_CODE_EXISTS, 'A promo code with this code already exists', 409);
+    }
+
+    console.log(`Admin: Promo code ${promoCode.code} created`);
+    return successResponse(promoCode, 201);
+  } catch (error) {
+    console.error('Error creating promo code:', error);
+    return errorResponse(
+      ERROR_CODES.CREATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to create promo code',
+      500
+    );
+  }
+}
+
+/** Stops a code being used on new bookings; pending bookings that already applied it keep their price */
+export async function handleDeactivatePromoCode(code: string): Promise<Response> {
+  try {
+    if (!getPromoCode(code)) {
+      return errorResponse(ERROR_CODES.PROMO_CODE_NOT_FOUND, 'Promo code not found', 404);
+    }
+
+    const promoCode = deactivatePromoCode(code);
+    console.log(`Admin: Promo code ${promoCode!.code} deactivated`);
+    return successResponse(promoCode);
+  } catch (error) {
+    console.error('Error deactivating promo code:', error);
+    return errorResponse(
+      ERROR_CODES.UPDATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to deactivate promo code',
+      500
+    );
+  }
+}
+
+export async function handleListPackages(): Promise<Response> {
+  try {
+    return successResponse<AdminPackageListResponse>({ packages: listPackages() });
+  } catch (error) {
+    console.error('Error listing packages:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to list packages',
+      500
+    );
+  }
+}
+
+export async function handleCreatePackage(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = createPackageSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const input = parsed.data;
+    const offerings = await Promise.all(input.offeringIds.map((id) => fetchOfferingById(id)));
+
+    for (const [index, offering] of offerings.entries()) {
+      const label = ` (offering ${input.offeringIds[index]})`;
+
+      if (!offering) {
+        return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, `Offering not found${label}`, 404);
+      }
+
+      if (offering.yearGroup !== input.yearGroup) {
+        return errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          `offeringIds: Offering is for year group ${offering.yearGroup}, not ${input.yearGroup}${label}`
+        );
+      }
+    }
+
+    // A package is paid in one checkout, which Stripe charges in a single currency
+    const { currency } = offerings[0]!;
+    const otherCurrency = offerings.find((offering) => offering!.currency !== currency);
+
+    if (otherCurrency) {
+      return errorResponse(
+        ERROR_CODES.CURRENCY_MISMATCH,
+        `Every offering in a package must be priced in ${currency.toUpperCase()} (offering ${otherCurrency.id})`
+      );
+    }
+
+    const offeringsTotal = roundMoney(
+      offerings.reduce((sum, offering) => sum + offering!.price, 0),
+      currency
+    );
+
+    if (input.price > offeringsTotal) {
+      return errorResponse(
+        ERROR_CODES.VALIDATION_ERROR,
+        `price: Package price cannot exceed the offerings' total of ${formatPrice(offeringsTotal, currency)}`
+      );
+    }
+
+    const pkg = createPackage(input);
+    console.log(`Admin: Package ${pkg.id} created (${pkg.offeringIds.length} offerings)`);
+    return successResponse(pkg, 201);
+  } catch (error) {
+    console.error('Error creating package:', error);
+    return errorResponse(
+      ERROR_CODES.CREATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to create package',
+      500
+    );
+  }
+}
+
+/** Takes a package off sale; bookings already made through it are unaffected */
+export async function handleDeactivatePackage(packageId: string): Promise<Response> {
+  try {
+    if (!getPackage(packageId)) {
+      return errorResponse(ERROR_CODES.PACKAGE_NOT_FOUND, 'Package not found', 404);
+    }
+
+    const pkg = deactivatePackage(packageId);
+    console.log(`Admin: Package ${packageId} deactivated`);
+    return successResponse(pkg);
+  } catch (error) {
+    console.error('Error deactivating package:', error);
+    return errorResponse(
+      ERROR_CODES.UPDATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to deactivate package',
+      500
+    );
+  }
+}
+
+/**
+ * Called by GHL workflows when an offering is edited in GHL. The raw body must
+ * be signed with OFFERINGS_CACHE_WEBHOOK_SECRET (hex HMAC-SHA256 in
+ * `X-Signature`). An `offeringId` or `yearGroup` narrows what is dropped;
+ * a body with neither clears the whole cache.
+ */
+export async function handleInvalidateOfferingsCache(request: Request): Promise<Response> {
+  const rawBody = await request.text();
+  const signature = request.headers.get('x-signature');
+
+  if (!signature || !verifyInvalidationSignature(rawBody, signature)) {
+    return errorResponse(ERROR_CODES.WEBHOOK_SIGNATURE_INVALID, 'Invalid webhook signature', 401);
+  }
+
+  let body: unknown = {};
+  if (rawBody.trim()) {
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'Request body must be JSON');
+    }
+  }
+
+  const parsed = offeringsCacheInvalidationSchema.safeParse(body);
+  if (!parsed.success) {
+    return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+  }
+
+  const { offeringId, yearGroup } = parsed.data;
+
+  if (offeringId) {
+    invalidateOffering(offeringId);
+  } else if (yearGroup) {
+    invalidateYearGroup(yearGroup);
+  } else {
+    invalidateAllOfferings();
+  }
+
+  console.log(`Offerings cache invalidated (${offeringId ? `offering ${offeringId}` : yearGroup ? `year group ${yearGroup}` : 'all'})`);
+
+  return successResponse<OfferingsCacheInvalidationResponse>({
+    offeringId: offeringId ?? null,
+    yearGroup: offeringId ? null : (yearGroup ?? null),
+  });
+}
@@ -0,0 +1,66 @@
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { config } from './config';
+import type { ApiKeyConfig } from './config';
+import { errorResponse } from './responses';
+import type { ApiScope } from './types';
+import { ERROR_CODES } from './types';
+
+/** Grants every scope; intended for break-glass keys only */
+const WILDCARD_SCOPE = '*';
+
+function getBearerToken(request: Request): string | null {
+  const header = request.headers.get('authorization');
+  if (!header?.startsWith('Bearer ')) return null;
+  return header.slice('Bearer '.length).trim() || null;
+}
+
+/** Resolves the configured API key a request's bearer token belongs to, if any */
+export function authenticate(request: Request): ApiKeyConfig | null {
+  const token = getBearerToken(request);
+  if (!token) return null;
+
+  const digest = createHash('sha256').update(token).digest();
+
+  // Compare against every key so the time taken doesn't reveal which one matched
+  let match: ApiKeyConfig | null = null;
+  for (const key of config.auth.apiKeys) {
+    if (timingSafeEqual(digest, Buffer.from(key.hash, 'hex'))) {
+      match = key;
+    }
+  }
+
+  return match;
+}
+
+function audit(request: Request, key: string, outcome: string | number): void {
+  const url = new URL(request.url);
+  console.log(`[${new Date().toISOString()}] AUDIT key=${key} ${request.method} ${url.pathname} ${outcome}`);
+}
+
+/**
+ * Runs `handler` only if the request carries an API key with `scope`, and
+ * records which key performed the action and how it ended.
+ */
+export async function authorize(
+  request: Request,
+  scope: ApiScope,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = authenticate(request);
+
+  if (!key) {
+    audit(request, '-', 'unauthorized');
+    return errorResponse(ERROR_CODES.UNAUTHORIZED, 'A valid API key is required', 401, {
+      'WWW-Authenticate': 'Bearer',
+    });
+  }
+
+  if (!key.scopes.includes(scope) && !key.scopes.includes(WILDCARD_SCOPE)) {
+    audit(request, key.name, `forbidden (missing ${scope})`);
+    return errorResponse(ERROR_CODES.FORBIDDEN, `API key is missing the ${scope} scope`, 403);
+  }
+
+  const response = await handler();
+  audit(request, key.name, response.status);
+  return response;
+}
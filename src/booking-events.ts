@@ -0,0 +1,101 @@
+import type {
+  Booking,
+  BookingWebhookPayload,
+  Contact,
+  GhlWebhookPayload,
+  OrderWebhookPayload,
+  WorkshopOffering,
+} from './types';
+import { BOOKING_WEBHOOK_EVENTS, SEAT_SECURED_STATUSES } from './types';
+
+/** `booking BK-…` or `order ORD-…`, for log lines */
+export function getWebhookSubject(payload: GhlWebhookPayload): string {
+  return 'order' in payload ? `order ${payload.order.orderId}` : `booking ${payload.booking.bookingId}`;
+}
+
+/**
+ * Builds a GHL workflow payload from a stored booking. The Zoom link is only
+ * included once the booking's seat has been paid for, in full or by deposit.
+ */
+export function buildBookingEventPayload(
+  event: BookingWebhookPayload['event'],
+  booking: Booking,
+  offering: WorkshopOffering | null,
+  student: Contact | null,
+  extras: Partial<Pick<BookingWebhookPayload, 'checkout' | 'refund' | 'payment' | 'paymentPlan'>> = {}
+): BookingWebhookPayload {
+  return {
+    event,
+    booking: {
+      bookingId: booking.bookingId,
+      paymentStatus: booking.paymentStatus,
+      pricePaid: booking.pricePaid,
+    },
+    offering: {
+      id: booking.workshopOfferingId,
+      name: offering?.offering || '',
+      subject: booking.subject,
+      workshopDate: booking.workshopDate,
+      sessionTime: booking.sessionTime,
+      yearGroup: booking.yearGroup,
+      zoomLink: SEAT_SECURED_STATUSES.includes(booking.paymentStatus) ? booking.zoomLink : '',
+    },
+    parent: {
+      name: `${booking.parentFirstName} ${booking.parentLastName}`.trim(),
+      email: booking.parentEmail,
+      phone: booking.parentPhone,
+    },
+    student: {
+      name: `${booking.studentFirstName} ${booking.studentLastName}`.trim(),
+      email: student?.email || '',
+    },
+    payment: null,
+    ...extras,
+  };
+}
+
+/**
+ * Builds the single `order.paid` payload for bookings paid in one checkout.
+ * Every booking must already be marked paid, so each carries its Zoom link.
+ */
+export function buildOrderPaidPayload(
+  orderId: string,
+  bookings: Booking[],
+  offerings: Map<string, WorkshopOffering | null>,
+  students: Map<string, Contact | null>,
+  payment: OrderWebhookPayload['payment']
+): OrderWebhookPayload {
+  const [first] = bookings;
+
+  return {
+    event: BOOKING_WEBHOOK_EVENTS.ORDER_PAID,
+    order: {
+      orderId,
+      packageId: first.packageId || null,
+      total: bookings.reduce((sum, b) => sum + b.pricePaid, 0),
+      currency: payment.currency || first.currency,
+      bookings: bookings.map((booking) => {
+        const { offering, student } = buildBookingEventPayload(
+          BOOKING_WEBHOOK_EVENTS.BOOKING_PAID,
+          booking,
+          offerings.get(booking.workshopOfferingId) ?? null,
+          students.get(booking.studentContactId) ?? null
+        );
+        return {
+          bookingId: booking.bookingId,
+          recordId: booking.id,
+          paymentStatus: booking.paymentStatus,
+          pricePaid: booking.pricePaid,
+          offering,
+          student,
+        };
+      }),
+    },
+    parent: {
+      name: `${first.parentFirstName} ${first.parentLastName}`.trim(),
+      email: first.parentEmail,
+      phone: first.parentPhone,
+    },
+    payment,
+  };
+}
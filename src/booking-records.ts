@@ -0,0 +1,46 @@
+import { getDatabase } from './db';
+
+let initialised = false;
+
+function getBookingRecordsDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS booking_records (
+        student_contact_id TEXT NOT NULL,
+        offering_id TEXT NOT NULL,
+        record_id TEXT NOT NULL,
+        PRIMARY KEY (student_contact_id, offering_id)
+      )
+    `);
+    initialised = true;
+  }
+
+  return db;
+}
+
+/**
+ * Remembers the booking record created for a student on an offering. GHL's
+ * search can take a while to show a new record, so lookups made under the
+ * same lock check here first and read the record by ID.
+ */
+export function saveBookingRecordId(studentContactId: string, offeringId: string, recordId: string): void {
+  getBookingRecordsDatabase()
+    .query(
+      `INSERT INTO booking_records (student_contact_id, offering_id, record_id)
+       VALUES (?, ?, ?)
+       ON CONFLICT (student_contact_id, offering_id) DO UPDATE SET record_id = excluded.record_id`
+    )
+    .run(studentContactId, offeringId, recordId);
+}
+
+export function getBookingRecordId(studentContactId: string, offeringId: string): string | null {
+  const row = getBookingRecordsDatabase()
+    .query<{ record_id: string }, [string, string]>(
+      'SELECT record_id FROM booking_records WHERE student_contact_id = ? AND offering_id = ?'
+    )
+    .get(studentContactId, offeringId);
+
+  return row?.record_id ?? null;
+}
@@ -0,0 +1,19 @@
+import { config } from './config';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Returns the percentage of the amount paid that a cancellation made now
+ * should refund, measured against the start of the workshop date.
+ */
+export function getPolicyRefundPercent(workshopDate: string, now = Date.now()): number {
+  const startsAt = new Date(`${workshopDate}T00:00:00`).getTime();
+  if (isNaN(startsAt)) return 0;
+
+  const hoursUntilStart = (startsAt - now) / HOUR_MS;
+  const { fullRefundHours, partialRefundHours, partialRefundPercent } = config.cancellation;
+
+  if (hoursUntilStart >= fullRefundHours) return 100;
+  if (hoursUntilStart >= partialRefundHours) return partialRefundPercent;
+  return 0;
+}
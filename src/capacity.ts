@@ -0,0 +1,102 @@
+import { config } from './config';
+import { fetchOfferingById, findBookingsByOffering, updateOfferingAvailability } from './ghl';
+import { isHoldActive, listSeatHolds } from './holds';
+import { createSwrCache, invalidateOffering } from './offerings-cache';
+import type { Booking, WorkshopOffering, OfferingWithSeats } from './types';
+import { AVAILABILITY, SEAT_SECURED_STATUSES } from './types';
+
+/**
+ * Counts bookings holding a seat: paid ones (including those on a payment
+ * plan) plus pending ones with a live hold. Holds recorded locally count as
+ * well, since GHL's search may not show a booking written moments ago.
+ */
+export function countSeatsTaken(offeringId: string, bookings: Booking[], now = Date.now()): number {
+  const taken = new Set(
+    bookings
+      .filter((b) => SEAT_SECURED_STATUSES.includes(b.paymentStatus) || isHoldActive(b, now))
+      .map((b) => b.id)
+  );
+
+  for (const recordId of listSeatHolds(offeringId, now)) {
+    taken.add(recordId);
+  }
+
+  return taken.size;
+}
+
+export async function countActiveBookings(offeringId: string): Promise<number> {
+  return countSeatsTaken(offeringId, await findBookingsByOffering(offeringId));
+}
+
+export async function getSeatsRemaining(offering: WorkshopOffering): Promise<number | null> {
+  if (!offering.capacity) return null;
+
+  const taken = await countActiveBookings(offering.id);
+  return Math.max(0, offering.capacity - taken);
+}
+
+// Listings read seat counts from here; booking checks always count afresh
+const seatsTakenByOffering = createSwrCache<number>('seat count', countActiveBookings, {
+  ttlSeconds: config.offeringsCache.seatsTtlSeconds,
+  staleSeconds: 0,
+});
+
+/** Drops an offering's cached seat count after a booking takes or gives up a seat */
+export function invalidateSeatCount(offeringId: string): void {
+  seatsTakenByOffering.delete(offeringId);
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight, keeping the input order */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Adds `seatsRemaining` for the offerings listing. Counts are cached for
+ * `OFFERINGS_SEATS_TTL_SECONDS` and only a few GHL searches run at once, so
+ * a rush of parents on the form doesn't turn into a search per offering each.
+ */
+export async function withSeatsRemaining(offerings: WorkshopOffering[]): Promise<OfferingWithSeats[]> {
+  return mapWithConcurrency(offerings, config.offeringsCache.seatCountConcurrency, async (offering) => ({
+    ...offering,
+    seatsRemaining: offering.capacity
+      ? Math.max(0, offering.capacity - (await seatsTakenByOffering.get(offering.id)))
+      : null,
+  }));
+}
+
+/**
+ * Flips a capacity-limited offering between `full` and `available` to match its
+ * current seat count. Inactive offerings and offerings without a capacity are
+ * left alone, so a manually managed availability is never overwritten.
+ */
+export async function syncOfferingAvailability(offeringId: string): Promise<void> {
+  // Called whenever a seat is paid for or given up
+  invalidateSeatCount(offeringId);
+
+  const offering = await fetchOfferingById(offeringId);
+
+  if (!offering || !offering.capacity || offering.availability === AVAILABILITY.INACTIVE) {
+    return;
+  }
+
+  const seatsRemaining = await getSeatsRemaining(offering);
+  const availability = seatsRemaining === 0 ? AVAILABILITY.FULL : AVAILABILITY.AVAILABLE;
+
+  if (offering.availability !== availability) {
+    await updateOfferingAvailability(offering.id, availability);
+    invalidateOffering(offering.id);
+    console.log(`Offering ${offering.id} marked as ${availability} (${seatsRemaining} seats remaining)`);
+  }
+}
@@ -0,0 +1,82 @@
+import { formatPrice, normaliseCurrency, roundMoney } from './currency';
+import type { OfferingFacets, OfferingWithSeats, PackageWithOfferings, WorkshopOffering, WorkshopPackage } from './types';
+import { AVAILABILITY, OFFERING_SORT } from './types';
+import type { OfferingsQuery } from './validation';
+
+function sameText(a: string, b: string): boolean {
+  return a.localeCompare(b, 'en', { sensitivity: 'base' }) === 0;
+}
+
+function byDate(a: WorkshopOffering, b: WorkshopOffering): number {
+  return a.workshopDate.localeCompare(b.workshopDate) || a.sessionTime.localeCompare(b.sessionTime);
+}
+
+const comparators = {
+  [OFFERING_SORT.DATE]: byDate,
+  [OFFERING_SORT.PRICE]: (a: WorkshopOffering, b: WorkshopOffering) => a.price - b.price || byDate(a, b),
+  [OFFERING_SORT.SUBJECT]: (a: WorkshopOffering, b: WorkshopOffering) =>
+    a.subject.localeCompare(b.subject, 'en') || byDate(a, b),
+};
+
+/** Applies the optional `GET /api/offerings` filters and sort to a year group's offerings */
+export function queryOfferings(offerings: WorkshopOffering[], query: OfferingsQuery): WorkshopOffering[] {
+  return offerings
+    .filter(
+      (o) =>
+        (!query.subject || sameText(o.subject, query.subject)) &&
+        (!query.intake || sameText(o.intake, query.intake)) &&
+        (!query.from || o.workshopDate >= query.from) &&
+        (!query.to || o.workshopDate <= query.to) &&
+        (!query.availability || o.availability === query.availability)
+    )
+    .sort(comparators[query.sort]);
+}
+
+function distinct(values: string[]): string[] {
+  const unique = new Map<string, string>();
+  for (const value of values) {
+    const key = value.trim().toLowerCase();
+    if (key && !unique.has(key)) unique.set(key, value.trim());
+  }
+  return [...unique.values()].sort((a, b) => a.localeCompare(b, 'en'));
+}
+
+/** Distinct subjects and intakes across a year group's offerings, for building dropdowns */
+export function buildFacets(yearGroup: string, offerings: WorkshopOffering[]): OfferingFacets {
+  return {
+    yearGroup,
+    subjects: distinct(offerings.map((o) => o.subject)),
+    intakes: distinct(offerings.map((o) => o.intake)),
+  };
+}
+
+/**
+ * Attaches a package's offerings from those still on sale. Packages are only
+ * sold whole, so one offering that is past, inactive or full makes the package
+ * unbookable.
+ */
+export function buildPackageListing(
+  pkg: WorkshopPackage,
+  onSale: Map<string, OfferingWithSeats>
+): PackageWithOfferings {
+  const offerings = pkg.offeringIds
+    .map((id) => onSale.get(id))
+    .filter((offering): offering is OfferingWithSeats => offering !== undefined)
+    .sort(byDate);
+
+  const currency = normaliseCurrency(offerings[0]?.currency);
+
+  return {
+    ...pkg,
+    offerings,
+    currency,
+    priceLabel: formatPrice(pkg.price, currency),
+    offeringsTotal: roundMoney(
+      offerings.reduce((sum, offering) => sum + offering.price, 0),
+      currency
+    ),
+    bookable:
+      offerings.length === pkg.offeringIds.length &&
+      offerings.every((o) => o.availability === AVAILABILITY.AVAILABLE && o.seatsRemaining !== 0),
+  };
+}
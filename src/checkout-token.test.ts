@@ -0,0 +1,63 @@
+import { describe, expect, test } from 'bun:test';
+import { CheckoutTokenError, createCheckoutToken, createOrderCheckoutToken, verifyCheckoutToken } from './checkout-token';
+import { STRIPE_ERROR_CODES } from './types';
+
+const expiresAt = '2099-01-01T10:00:00.000Z';
+
+function verifyError(token: string, now?: number): CheckoutTokenError {
+  try {
+    verifyCheckoutToken(token, now);
+  } catch (error) {
+    if (error instanceof CheckoutTokenError) return error;
+    throw error;
+  }
+  throw new Error('Expected the token to be rejected');
+}
+
+describe('verifyCheckoutToken', () => {
+  test('returns the booking a token was created for', () => {
+    expect(verifyCheckoutToken(createCheckoutToken('BK-1', expiresAt))).toEqual({
+      bookingId: 'BK-1',
+      expiresAt: new Date(expiresAt),
+    });
+  });
+
+  test('returns the order and record IDs an order token was created for', () => {
+    expect(verifyCheckoutToken(createOrderCheckoutToken('ORD-1', ['record-1', 'record-2'], expiresAt))).toEqual({
+      orderId: 'ORD-1',
+      recordIds: ['record-1', 'record-2'],
+      expiresAt: new Date(expiresAt),
+    });
+  });
+
+  test('rejects a token whose payload was changed to another booking', () => {
+    const [, signature] = createCheckoutToken('BK-1', expiresAt).split('.');
+    const payload = Buffer.from(JSON.stringify({ b: 'BK-2', e: Date.parse(expiresAt) / 1000 })).toString('base64url');
+
+    const error = verifyError(`${payload}.${signature}`);
+
+    expect(error.code).toBe(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID);
+  });
+
+  test('rejects a token signed for another booking', () => {
+    const [payload] = createCheckoutToken('BK-1', expiresAt).split('.');
+    const [, signature] = createCheckoutToken('BK-2', expiresAt).split('.');
+
+    expect(verifyError(`${payload}.${signature}`).code).toBe(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID);
+  });
+
+  test('rejects malformed tokens', () => {
+    const token = createCheckoutToken('BK-1', expiresAt);
+
+    for (const malformed of ['', 'no-signature', `${token}.extra`, `${token.slice(0, -1)}x`]) {
+      expect(verifyError(malformed).code).toBe(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID);
+    }
+  });
+
+  test('rejects an expired token as expired rather than invalid', () => {
+    const token = createCheckoutToken('BK-1', expiresAt);
+
+    expect(verifyCheckoutToken(token, Date.parse(expiresAt) - 1000)).toMatchObject({ bookingId: 'BK-1' });
+    expect(verifyError(token, Date.parse(expiresAt)).code).toBe(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_EXPIRED);
+  });
+});
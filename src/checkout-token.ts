@@ -0,0 +1,101 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { config } from './config';
+import { STRIPE_ERROR_CODES } from './types';
+
+export class CheckoutTokenError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CheckoutTokenError';
+  }
+}
+
+interface CheckoutTokenPayload {
+  /** Booking ID, for a single booking */
+  b?: string;
+  /** Order ID and its bookings' record IDs, for an order */
+  o?: string;
+  r?: string[];
+  /** Expiry, in seconds since the epoch */
+  e: number;
+}
+
+export type CheckoutTokenSubject =
+  | { bookingId: string; expiresAt: Date }
+  | { orderId: string; recordIds: string[]; expiresAt: Date };
+
+function sign(payload: string): string {
+  return createHmac('sha256', config.checkoutTokenSecret).update(payload).digest('base64url');
+}
+
+function encode(body: CheckoutTokenPayload): string {
+  const payload = Buffer.from(JSON.stringify(body)).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Creates an opaque `<payload>.<signature>` token that lets the checkout page pay for one booking until `expiresAt` */
+export function createCheckoutToken(bookingId: string, expiresAt: string): string {
+  return encode({ b: bookingId, e: Math.floor(Date.parse(expiresAt) / 1000) });
+}
+
+/**
+ * Like `createCheckoutToken`, for every booking in an order. The record IDs
+ * let checkout read the bookings directly instead of through GHL's search
+ * index, which can lag behind the records just created.
+ */
+export function createOrderCheckoutToken(orderId: string, recordIds: string[], expiresAt: string): string {
+  return encode({ o: orderId, r: recordIds, e: Math.floor(Date.parse(expiresAt) / 1000) });
+}
+
+export function verifyCheckoutToken(token: string, now = Date.now()): CheckoutTokenSubject {
+  const [payload, signature, ...rest] = token.split('.');
+
+  if (!payload || !signature || rest.length > 0) {
+    throw new CheckoutTokenError(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID, 'Invalid checkout link');
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new CheckoutTokenError(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID, 'Invalid checkout link');
+  }
+
+  let body: Partial<CheckoutTokenPayload>;
+  try {
+    body = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new CheckoutTokenError(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID, 'Invalid checkout link');
+  }
+
+  const isOrder =
+    typeof body.o === 'string' && Array.isArray(body.r) && body.r.every((id) => typeof id === 'string');
+
+  if ((typeof body.b !== 'string' && !isOrder) || typeof body.e !== 'number') {
+    throw new CheckoutTokenError(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_INVALID, 'Invalid checkout link');
+  }
+
+  if (body.e * 1000 <= now) {
+    throw new CheckoutTokenError(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_EXPIRED, 'This checkout link has expired');
+  }
+
+  const expiresAt = new Date(body.e * 1000);
+  return isOrder ? { orderId: body.o!, recordIds: body.r!, expiresAt } : { bookingId: body.b!, expiresAt };
+}
+
+/**
+ * Signs a waitlist entry's ID for the parent who joined it, so only they can
+ * look up its place in the queue. It has no expiry: an entry can wait for weeks.
+ */
+export function createWaitlistToken(waitlistId: string): string {
+  // A checkout token's payload is base64url, so it never contains this '.'
+  return sign(`waitlist.${waitlistId}`);
+}
+
+export function isValidWaitlistToken(waitlistId: string, token: string): boolean {
+  const expected = Buffer.from(createWaitlistToken(waitlistId));
+  const actual = Buffer.from(token);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
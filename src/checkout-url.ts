@@ -0,0 +1,19 @@
+import { config } from './config';
+import { createCheckoutToken, createOrderCheckoutToken } from './checkout-token';
+
+/** The checkout page only receives a signed token; it exchanges it for display data and a Stripe session */
+export function buildCheckoutUrl(booking: { bookingId: string; expiresAt: string }): string {
+  const queryParams = new URLSearchParams({
+    token: createCheckoutToken(booking.bookingId, booking.expiresAt),
+  });
+
+  return `${config.checkoutBaseUrl}?${queryParams.toString()}`;
+}
+
+export function buildOrderCheckoutUrl(order: { orderId: string; recordIds: string[]; expiresAt: string }): string {
+  const queryParams = new URLSearchParams({
+    token: createOrderCheckoutToken(order.orderId, order.recordIds, order.expiresAt),
+  });
+
+  return `${config.checkoutBaseUrl}?${queryParams.toString()}`;
+}
@@ -16,6 +16,67 @@ function getEnvNumber(key: string, fallback: number): number {
   return num;
 }
 
+function getEnvList(key: string, fallback: string[]): string[] {
+  const value = process.env[key];
+  if (value === undefined) return fallback;
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export interface ApiKeyConfig {
+  name: string;
+  /** Hex-encoded SHA-256 of the key; the key itself is never configured */
+  hash: string;
+  scopes: string[];
+}
+
+/** Parses `name=sha256hex=scope,scope;name=sha256hex=scope` into API key entries */
+function getApiKeys(key: string): ApiKeyConfig[] {
+  const value = process.env[key];
+  if (!value) return [];
+
+  return value
+    .split(';')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [name, hash, scopes] = entry.split('=').map((part) => part.trim());
+      if (!name || !/^[0-9a-f]{64}$/i.test(hash ?? '') || !scopes) {
+        throw new Error(`Environment variable ${key} has an invalid entry: ${name || entry}`);
+      }
+      return {
+        name,
+        hash: hash.toLowerCase(),
+        scopes: scopes.split(',').map((scope) => scope.trim()).filter(Boolean),
+      };
+    });
+}
+
+export interface YearGroupConfig {
+  /** Value stored on offerings and bookings, e.g. `gcse` */
+  id: string;
+  label: string;
+}
+
+/** Parses `id=Label,id=Label` into year groups, in display order */
+function getYearGroups(key: string, fallback: string): YearGroupConfig[] {
+  const yearGroups = getEnvList(key, fallback.split(',')).map((entry) => {
+    const [id, ...label] = entry.split('=');
+    const value = id.trim().toLowerCase();
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(value) || !label.join('=').trim()) {
+      throw new Error(`Environment variable ${key} has an invalid entry: ${entry}`);
+    }
+    return { id: value, label: label.join('=').trim() };
+  });
+
+  if (yearGroups.length === 0) {
+    throw new Error(`Environment variable ${key} must list at least one year group`);
+  }
+  return yearGroups;
+}
+
 export const config = {
   port: getEnvNumber('PORT', 3000),
   ghl: {
@@ -28,18 +89,100 @@ export const config = {
     workshopOfferings: getEnv('WORKSHOP_OFFERINGS_SCHEMA'),
     bookings: getEnv('BOOKINGS_SCHEMA'),
   },
+  yearGroups: getYearGroups('YEAR_GROUPS', 'gcse=GCSE,alevel=A Level'),
   checkoutBaseUrl: getEnv('CHECKOUT_BASE_URL'),
+  checkoutTokenSecret: getEnv('CHECKOUT_TOKEN_SECRET'),
   stripe: {
     secretKey: getEnv('STRIPE_SECRET_KEY'),
     publishableKey: getEnv('STRIPE_PUBLISHABLE_KEY'),
     webhookSecret: getEnv('STRIPE_WEBHOOK_SECRET'),
-    currency: getEnv('STRIPE_CURRENCY', 'gbp'),
+    /** Default for offerings without a currency of their own */
+    currency: getEnv('STRIPE_CURRENCY', 'gbp').toLowerCase(),
     successUrl: getEnv('CHECKOUT_SUCCESS_URL'),
   },
+  holds: {
+    durationMinutes: getEnvNumber('SEAT_HOLD_MINUTES', 45),
+    sweepIntervalMs: getEnvNumber('HOLD_SWEEP_INTERVAL_MS', 60000),
+  },
+  cors: {
+    /** Exact origins (`https://app.example.com`) or wildcard subdomains (`https://*.example.com`) */
+    allowedOrigins: getEnvList('CORS_ALLOWED_ORIGINS', []),
+    allowedMethods: getEnvList('CORS_ALLOWED_METHODS', ['GET', 'POST', 'PATCH', 'DELETE', 'OPTIONS']),
+    allowedHeaders: getEnvList('CORS_ALLOWED_HEADERS', ['Content-Type', 'Authorization', 'Idempotency-Key']),
+    maxAgeSeconds: getEnvNumber('CORS_MAX_AGE_SECONDS', 86400),
+  },
+  auth: {
+    apiKeys: getApiKeys('API_KEYS'),
+  },
+  cancellation: {
+    fullRefundHours: getEnvNumber('CANCELLATION_FULL_REFUND_HOURS', 48),
+    partialRefundHours: getEnvNumber('CANCELLATION_PARTIAL_REFUND_HOURS', 24),
+    partialRefundPercent: getEnvNumber('CANCELLATION_PARTIAL_REFUND_PERCENT', 50),
+  },
+  waitlist: {
+    offerMinutes: getEnvNumber('WAITLIST_OFFER_MINUTES', 1440),
+  },
+  pricing: {
+    /** Bookings made at least this many days before the workshop get the early-bird discount */
+    earlyBirdDays: getEnvNumber('EARLY_BIRD_DAYS', 28),
+    /** 0 turns a discount off */
+    earlyBirdPercent: getEnvNumber('EARLY_BIRD_PERCENT', 0),
+    siblingPercent: getEnvNumber('SIBLING_DISCOUNT_PERCENT', 0),
+    /** Locale offering price labels are formatted in */
+    locale: getEnv('PRICE_LABEL_LOCALE', 'en-GB'),
+  },
+  paymentPlans: {
+    /** The balance, or the last instalment, is taken at least this many days before the workshop */
+    balanceDaysBefore: getEnvNumber('PAYMENT_PLAN_BALANCE_DAYS', 14),
+  },
+  orders: {
+    /** Most workshops one order can book together; record IDs ride in Stripe's 500-character metadata values */
+    maxBookings: getEnvNumber('ORDER_MAX_BOOKINGS', 10),
+  },
+  database: {
+    path: getEnv('DATABASE_PATH', './data/workshop.db'),
+  },
+  idempotency: {
+    /** `memory` (single instance) or `sqlite` (shared through DATABASE_PATH) */
+    store: getEnv('IDEMPOTENCY_STORE', 'memory'),
+    ttlHours: getEnvNumber('IDEMPOTENCY_TTL_HOURS', 24),
+  },
+  outbox: {
+    pollIntervalMs: getEnvNumber('OUTBOX_POLL_INTERVAL_MS', 15000),
+    maxAttempts: getEnvNumber('OUTBOX_MAX_ATTEMPTS', 12),
+    retryBaseMs: getEnvNumber('OUTBOX_RETRY_BASE_MS', 30000),
+    retryMaxMs: getEnvNumber('OUTBOX_RETRY_MAX_MS', 60 * 60 * 1000),
+    retentionDays: getEnvNumber('OUTBOX_RETENTION_DAYS', 30),
+  },
+  stripeEvents: {
+    retentionDays: getEnvNumber('STRIPE_EVENT_RETENTION_DAYS', 30),
+  },
+  locks: {
+    /** `memory` (single instance) or `sqlite` (shared through DATABASE_PATH) */
+    store: getEnv('LOCK_STORE', 'memory'),
+    timeoutMs: getEnvNumber('LOCK_TIMEOUT_MS', 30000),
+    ttlMs: getEnvNumber('LOCK_TTL_MS', 60000),
+  },
+  circuitBreaker: {
+    failureThreshold: getEnvNumber('GHL_BREAKER_FAILURE_THRESHOLD', 5),
+    cooldownMs: getEnvNumber('GHL_BREAKER_COOLDOWN_MS', 30000),
+  },
+  offeringsCache: {
+    ttlSeconds: getEnvNumber('OFFERINGS_CACHE_TTL_SECONDS', 60),
+    staleSeconds: getEnvNumber('OFFERINGS_CACHE_STALE_SECONDS', 300),
+    /** Seat counts change with every booking, so they're cached only briefly */
+    seatsTtlSeconds: getEnvNumber('OFFERINGS_SEATS_TTL_SECONDS', 15),
+    /** Upper bound on GHL seat-count searches one offerings request runs at once */
+    seatCountConcurrency: getEnvNumber('OFFERINGS_SEAT_COUNT_CONCURRENCY', 4),
+    /** Shared secret GHL workflows sign invalidation requests with */
+    webhookSecret: process.env.OFFERINGS_CACHE_WEBHOOK_SECRET,
+  },
   request: {
-    timeoutMs: 15000,
-    maxRetries: 2,
+    timeoutMs: getEnvNumber('GHL_REQUEST_TIMEOUT_MS', 15000),
+    maxRetries: getEnvNumber('GHL_MAX_RETRIES', 2),
     pageLimit: 100,
+    /** Upper bound on records one search pages through */
+    maxSearchRecords: getEnvNumber('GHL_SEARCH_MAX_RECORDS', 5000),
   },
 } as const;
 
@@ -0,0 +1,90 @@
+import { config } from './config';
+import { errorResponse } from './responses';
+import { ERROR_CODES } from './types';
+
+/** Routes called server-to-server that never get CORS headers */
+const CORS_EXCLUDED_PATHS = new Set(['/api/webhooks/stripe', '/api/webhooks/ghl/offerings']);
+
+interface OriginPattern {
+  protocol: string;
+  host: string;
+  wildcard: boolean;
+}
+
+function parseOriginPattern(entry: string): OriginPattern | null {
+  const match = entry.match(/^(https?:)\/\/(\*\.)?([^/*]+)\/?$/i);
+  if (!match) {
+    console.warn(`Ignoring invalid CORS origin: ${entry}`);
+    return null;
+  }
+  return {
+    protocol: match[1].toLowerCase(),
+    host: match[3].toLowerCase(),
+    wildcard: Boolean(match[2]),
+  };
+}
+
+const originPatterns = config.cors.allowedOrigins
+  .map(parseOriginPattern)
+  .filter((pattern): pattern is OriginPattern => pattern !== null);
+
+export function isCorsExcluded(path: string): boolean {
+  return CORS_EXCLUDED_PATHS.has(path);
+}
+
+export function isOriginAllowed(origin: string | null): origin is string {
+  if (!origin) return false;
+
+  let url: URL;
+  try {
+    url = new URL(origin);
+  } catch {
+    return false;
+  }
+
+  const protocol = url.protocol;
+  const host = url.host.toLowerCase();
+
+  return originPatterns.some((pattern) => {
+    if (pattern.protocol !== protocol) return false;
+    // Wildcards cover subdomains only, not the bare domain
+    return pattern.wildcard ? host.endsWith(`.${pattern.host}`) : host === pattern.host;
+  });
+}
+
+/** Reflects the request's origin onto `response` when it is on the allow-list */
+export function addCorsHeaders(request: Request, response: Response): Response {
+  const origin = request.headers.get('origin');
+  const headers = new Headers(response.headers);
+  headers.append('Vary', 'Origin');
+
+  if (isOriginAllowed(origin)) {
+    headers.set('Access-Control-Allow-Origin', origin);
+  }
+
+  return new Response(response.body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+export function handleCorsPreflightRequest(request: Request): Response {
+  const origin = request.headers.get('origin');
+  const requestedMethod = request.headers.get('access-control-request-method')?.toUpperCase();
+
+  if (!isOriginAllowed(origin) || (requestedMethod && !config.cors.allowedMethods.includes(requestedMethod))) {
+    return errorResponse(ERROR_CODES.FORBIDDEN, 'Origin not allowed', 403, { Vary: 'Origin' });
+  }
+
+  return new Response(null, {
+    status: 204,
+    headers: {
+      'Access-Control-Allow-Origin': origin,
+      'Access-Control-Allow-Methods': config.cors.allowedMethods.join(', '),
+      'Access-Control-Allow-Headers': config.cors.allowedHeaders.join(', '),
+      'Access-Control-Max-Age': String(config.cors.maxAgeSeconds),
+      Vary: 'Origin',
+    },
+  });
+}
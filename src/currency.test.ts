@@ -0,0 +1,53 @@
+import { describe, expect, test } from 'bun:test';
+import { formatPrice, fromMinorUnits, normaliseCurrency, roundMoney, toMinorUnits } from './currency';
+
+describe('toMinorUnits', () => {
+  test('converts two-decimal currencies to pennies', () => {
+    expect(toMinorUnits(12.5, 'gbp')).toBe(1250);
+    expect(toMinorUnits(0.1 + 0.2, 'gbp')).toBe(30);
+  });
+
+  test('leaves zero-decimal currencies in whole units', () => {
+    expect(toMinorUnits(1500, 'jpy')).toBe(1500);
+    expect(toMinorUnits(1500.4, 'JPY')).toBe(1500);
+  });
+
+  test('converts three-decimal currencies to thousandths ending in zero', () => {
+    expect(toMinorUnits(12.5, 'kwd')).toBe(12500);
+    expect(toMinorUnits(12.345, 'kwd')).toBe(12350);
+    expect(toMinorUnits(1.234, 'bhd')).toBe(1230);
+  });
+
+  test('uses STRIPE_CURRENCY for records without a currency', () => {
+    expect(normaliseCurrency('')).toBe('gbp');
+    expect(toMinorUnits(12.5, '')).toBe(1250);
+  });
+});
+
+describe('fromMinorUnits', () => {
+  test('converts back by each currency’s minor unit', () => {
+    expect(fromMinorUnits(1250, 'gbp')).toBe(12.5);
+    expect(fromMinorUnits(1500, 'jpy')).toBe(1500);
+    expect(fromMinorUnits(12350, 'kwd')).toBe(12.35);
+  });
+});
+
+describe('roundMoney', () => {
+  test('rounds to the smallest amount the currency can be charged in', () => {
+    expect(roundMoney(33.333, 'gbp')).toBe(33.33);
+    expect(roundMoney(6005.4, 'jpy')).toBe(6005);
+    expect(roundMoney(1.2345, 'kwd')).toBe(1.23);
+  });
+});
+
+describe('formatPrice', () => {
+  test('formats with each currency’s own decimals', () => {
+    expect(formatPrice(45, 'gbp')).toBe('£45.00');
+    expect(formatPrice(6000, 'jpy')).toBe('JP¥6,000');
+    expect(formatPrice(12.5, 'kwd').replace(/\s/g, ' ')).toBe('KWD 12.500');
+  });
+
+  test('falls back to the amount and code for codes Intl rejects', () => {
+    expect(formatPrice(45, 'pounds')).toBe('45 POUNDS');
+  });
+});
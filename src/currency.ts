@@ -0,0 +1,49 @@
+import { config } from './config';
+
+/** Currencies Stripe charges in whole units, with no minor unit */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf',
+]);
+
+/** Currencies Stripe charges in thousandths */
+const THREE_DECIMAL_CURRENCIES = new Set(['bhd', 'jod', 'kwd', 'omr', 'tnd']);
+
+/** Lower-cased like Stripe's, falling back to `STRIPE_CURRENCY` for records without one */
+export function normaliseCurrency(currency: string | null | undefined): string {
+  return (currency || config.stripe.currency).trim().toLowerCase();
+}
+
+function getMinorUnitFactor(currency: string): number {
+  const code = normaliseCurrency(currency);
+  if (ZERO_DECIMAL_CURRENCIES.has(code)) return 1;
+  if (THREE_DECIMAL_CURRENCIES.has(code)) return 1000;
+  return 100;
+}
+
+/** Converts an amount to the integer Stripe expects, e.g. 12.5 GBP → 1250, 1500 JPY → 1500 */
+export function toMinorUnits(amount: number, currency: string): number {
+  const factor = getMinorUnitFactor(currency);
+  // Stripe only accepts three-decimal amounts that end in zero
+  return factor === 1000 ? Math.round(amount * 100) * 10 : Math.round(amount * factor);
+}
+
+export function fromMinorUnits(amount: number, currency: string): number {
+  return amount / getMinorUnitFactor(currency);
+}
+
+/** Rounds to the smallest amount the currency can be charged in */
+export function roundMoney(amount: number, currency: string): number {
+  return fromMinorUnits(toMinorUnits(amount, currency), currency);
+}
+
+/** A display-ready price such as `£45.00` or `¥6,000`, in `PRICE_LABEL_LOCALE` */
+export function formatPrice(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(config.pricing.locale, {
+      style: 'currency',
+      currency: normaliseCurrency(currency).toUpperCase(),
+    }).format(amount);
+  } catch {
+    return `${amount} ${normaliseCurrency(currency).toUpperCase()}`;
+  }
+}
@@ -0,0 +1,8 @@
+/** Today's date in server local time as `YYYY-MM-DD`, the format workshop dates are stored in */
+export function getTodayDateString(): string {
+  const today = new Date();
+  const year = today.getFullYear();
+  const month = String(today.getMonth() + 1).padStart(2, '0');
+  const day = String(today.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
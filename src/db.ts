@@ -0,0 +1,23 @@
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { config } from './config';
+
+let database: Database | null = null;
+
+/** Opens the shared SQLite database on first use */
+export function getDatabase(): Database {
+  if (!database) {
+    mkdirSync(dirname(config.database.path), { recursive: true });
+    database = new Database(config.database.path, { create: true });
+    // WAL lets several server processes read while one writes
+    database.exec('PRAGMA journal_mode = WAL');
+    database.exec('PRAGMA busy_timeout = 5000');
+  }
+  return database;
+}
+
+export function closeDatabase(): void {
+  database?.close();
+  database = null;
+}
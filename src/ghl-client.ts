@@ -1,4 +1,5 @@
 import { config } from './config';
+import { createCircuitBreaker, withRetry, parseRetryAfter, UpstreamResponseError } from './resilience';
 
 const HighLevelModule = require('@gohighlevel/api-client');
 const HighLevel = HighLevelModule.default ?? HighLevelModule;
@@ -6,3 +7,40 @@ const HighLevel = HighLevelModule.default ?? HighLevelModule;
 export const ghl = new HighLevel({
   privateIntegrationToken: config.ghl.accessToken,
 });
+
+/** Statuses whose Retry-After header we need; the SDK's own error handler drops headers */
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+
+const httpClient = ghl.getHttpClient();
+httpClient.defaults.timeout = config.request.timeoutMs;
+httpClient.defaults.validateStatus = (status: number) =>
+  (status >= 200 && status < 300) || RETRY_AFTER_STATUSES.has(status);
+httpClient.interceptors.response.use((response: any) => {
+  if (RETRY_AFTER_STATUSES.has(response.status)) {
+    throw new UpstreamResponseError(
+      `GHL responded with ${response.status}`,
+      response.status,
+      parseRetryAfter(response.headers?.['retry-after'])
+    );
+  }
+  return response;
+});
+
+export const ghlCircuitBreaker = createCircuitBreaker('GHL', {
+  failureThreshold: config.circuitBreaker.failureThreshold,
+  cooldownMs: config.circuitBreaker.cooldownMs,
+});
+
+/**
+ * Runs a GHL SDK call with the configured timeout, retries and circuit
+ * breaker. Pass `idempotent: false` for calls that must not be repeated
+ * after an ambiguous failure, such as creating a record. `T` defaults to
+ * `any` because the SDK client is untyped.
+ */
+export function callGhl<T = any>(label: string, fn: () => Promise<T>, options: { idempotent?: boolean } = {}): Promise<T> {
+  return withRetry(() => ghlCircuitBreaker.execute(fn), {
+    label: `GHL ${label}`,
+    maxRetries: config.request.maxRetries,
+    idempotent: options.idempotent ?? true,
+  });
+}
@@ -1,19 +1,92 @@
-import { ghl } from './ghl-client';
+import { ghl, callGhl } from './ghl-client';
 import { config } from './config';
 import type {
   WorkshopOffering,
+  OfferingInput,
   Contact,
   Booking,
-  BookingWebhookPayload,
+  GhlWebhookPayload,
 } from './types';
-import { OFFERING_FIELDS, BOOKING_FIELDS, AVAILABILITY, CONTACT_CUSTOM_FIELDS } from './types';
+import { getWebhookSubject } from './booking-events';
+import { formatPrice, normaliseCurrency } from './currency';
+import { getTodayDateString } from './dates';
+import { OFFERING_FIELDS, BOOKING_FIELDS, AVAILABILITY, CONTACT_CUSTOM_FIELDS, PAYMENT_STATUS } from './types';
+
+/** SDK errors carry the HTTP status as `statusCode` */
+function isNotFound(error: any): boolean {
+  return error?.statusCode === 404;
+}
+
+interface ObjectRecord {
+  id: string;
+  properties: Record<string, unknown>;
+}
+
+interface RecordFilter {
+  field: string;
+  operator: string;
+  value: unknown;
+}
+
+interface RecordSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Yields every record matching all of `filters`, one page at a time. Stops at
+ * GHL's reported `total`, on a short page, or after GHL_SEARCH_MAX_RECORDS
+ * records so a bad filter can't page through the whole location.
+ */
+async function* iterateObjectRecords(
+  schemaKey: string,
+  filters: RecordFilter[],
+  options: { sort?: RecordSort[] } = {}
+): AsyncGenerator<ObjectRecord> {
+  const { pageLimit, maxSearchRecords } = config.request;
+  let seen = 0;
+
+  for (let page = 1; ; page++) {
+    if (seen >= maxSearchRecords) {
+      console.warn(`GHL search of ${schemaKey} stopped at ${seen} records (GHL_SEARCH_MAX_RECORDS)`);
+      return;
+    }
+
+    const response = await callGhl('objects.searchObjectRecords', () => ghl.objects.searchObjectRecords(
+      { schemaKey },
+      {
+        locationId: config.ghl.locationId,
+        page,
+        pageLimit,
+        query: '',
+        filters: [{ group: 'AND', filters }],
+        ...(options.sort && { sort: options.sort }),
+      } as any
+    ));
+
+    const records = (response.records || []) as unknown as ObjectRecord[];
+    for (const record of records) {
+      yield record;
+    }
+    seen += records.length;
+
+    const total = typeof response.total === 'number' ? response.total : Infinity;
+    if (records.length < pageLimit || seen >= total) {
+      return;
+    }
+  }
+}
 
-function getTodayDateString(): string {
-  const today = new Date();
-  const year = today.getFullYear();
-  const month = String(today.getMonth() + 1).padStart(2, '0');
-  const day = String(today.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+async function searchAllObjectRecords(
+  schemaKey: string,
+  filters: RecordFilter[],
+  options: { sort?: RecordSort[] } = {}
+): Promise<ObjectRecord[]> {
+  const records: ObjectRecord[] = [];
+  for await (const record of iterateObjectRecords(schemaKey, filters, options)) {
+    records.push(record);
+  }
+  return records;
 }
 
 function parsePrice(priceField: unknown): number {
@@ -25,8 +98,15 @@ function parsePrice(priceField: unknown): number {
   return parseFloat(String(priceField)) || 0;
 }
 
-function parseOfferingFromRecord(record: { id: string; properties: Record<string, unknown> }): WorkshopOffering {
+function parseCount(field: unknown): number {
+  const value = Math.floor(parsePrice(field));
+  return value > 0 ? value : 0;
+}
+
+function parseOfferingFromRecord(record: ObjectRecord): WorkshopOffering {
   const props = record.properties || {};
+  const price = parsePrice(props[OFFERING_FIELDS.price]);
+  const currency = normaliseCurrency(String(props[OFFERING_FIELDS.currency] || ''));
   return {
     id: record.id,
     offering: String(props[OFFERING_FIELDS.offering] || ''),
@@ -36,14 +116,19 @@ function parseOfferingFromRecord(record: { id: string; properties: Record<string
     workshopDate: String(props[OFFERING_FIELDS.workshopDate] || ''),
     sessionTime: String(props[OFFERING_FIELDS.sessionTime] || ''),
     availability: String(props[OFFERING_FIELDS.availability] || '').toLowerCase(),
-    price: parsePrice(props[OFFERING_FIELDS.price]),
-    priceLabel: String(props[OFFERING_FIELDS.priceLabel] || ''),
+    price,
+    currency,
+    // Generated rather than read back, so labels typed into GHL by hand can't drift from the price
+    priceLabel: formatPrice(price, currency),
     zoomLink: String(props[OFFERING_FIELDS.zoomLink] || ''),
     stripePriceId: String(props[OFFERING_FIELDS.stripePriceId] || ''),
+    capacity: parseCount(props[OFFERING_FIELDS.capacity]),
+    depositAmount: parsePrice(props[OFFERING_FIELDS.depositAmount]),
+    instalments: parseCount(props[OFFERING_FIELDS.instalments]),
   };
 }
 
-function parseBookingFromRecord(record: { id: string; properties: Record<string, unknown> }): Booking {
+function parseBookingFromRecord(record: ObjectRecord): Booking {
   const props = record.properties || {};
   return {
     id: record.id,
@@ -73,69 +158,168 @@ function parseBookingFromRecord(record: { id: string; properties: Record<string,
     paymentReference: String(props[BOOKING_FIELDS.paymentReference] || ''),
     paymentStatus: String(props[BOOKING_FIELDS.paymentStatus] || ''),
     webhookTriggered: String(props[BOOKING_FIELDS.webhookTriggered] || '') === 'true',
+    // Seat hold
+    expiresAt: String(props[BOOKING_FIELDS.expiresAt] || ''),
+    // Waitlist
+    waitlistPosition: parseCount(props[BOOKING_FIELDS.waitlistPosition]),
+    // Refunds
+    amountRefunded: parsePrice(props[BOOKING_FIELDS.amountRefunded]),
+    // Orders
+    orderId: String(props[BOOKING_FIELDS.orderId] || ''),
+    // Pricing
+    pricingRule: String(props[BOOKING_FIELDS.pricingRule] || ''),
+    promoCode: String(props[BOOKING_FIELDS.promoCode] || ''),
+    discountAmount: parsePrice(props[BOOKING_FIELDS.discountAmount]),
+    // Packages
+    packageId: String(props[BOOKING_FIELDS.packageId] || ''),
+    // Payment plans
+    paymentPlan: String(props[BOOKING_FIELDS.paymentPlan] || ''),
+    amountReceived: parsePrice(props[BOOKING_FIELDS.amountReceived]),
+    paymentPlanReference: String(props[BOOKING_FIELDS.paymentPlanReference] || ''),
+    // Payment checks
+    paymentMismatch: String(props[BOOKING_FIELDS.paymentMismatch] || ''),
+  };
+}
+
+function parseContact(contact: any): Contact {
+  return {
+    id: contact.id,
+    firstName: contact.firstName || '',
+    lastName: contact.lastName || '',
+    name: contact.name || '',
+    email: contact.email || '',
+    phone: contact.phone || '',
+    tags: contact.tags || [],
   };
 }
 
 export async function fetchOfferings(yearGroup: string): Promise<WorkshopOffering[]> {
   const today = getTodayDateString();
 
-  const response = await ghl.objects.searchObjectRecords(
-    { schemaKey: config.schemas.workshopOfferings },
-    {
-      locationId: config.ghl.locationId,
-      page: 1,
-      pageLimit: config.request.pageLimit,
-      query: '',
-      filters: [
-        {
-          group: 'AND',
-          filters: [
-            {
-              field: `properties.${OFFERING_FIELDS.yearGroup}`,
-              operator: 'eq',
-              value: yearGroup,
-            },
-          ],
-        },
-      ],
-      sort: [{ field: 'updatedAt', direction: 'asc' }],
-    } as any
+  const records = await searchAllObjectRecords(
+    config.schemas.workshopOfferings,
+    [
+      { field: `properties.${OFFERING_FIELDS.yearGroup}`, operator: 'eq', value: yearGroup },
+    ],
+    { sort: [{ field: 'updatedAt', direction: 'asc' }] }
   );
 
-  const records = (response.records || []) as unknown as Array<{ id: string; properties: Record<string, unknown> }>;
-  const offerings = records.map(parseOfferingFromRecord);
-
-  return offerings.filter(
-    (o) =>
-      o.availability !== AVAILABILITY.INACTIVE &&
-      o.workshopDate >= today
-  );
+  // Only `eq` is pushed down to GHL's search; past and inactive offerings are
+  // dropped here
+  return records
+    .map(parseOfferingFromRecord)
+    .filter((o) => o.availability !== AVAILABILITY.INACTIVE && o.workshopDate >= today);
 }
 
 export async function fetchOfferingById(offeringId: string): Promise<WorkshopOffering | null> {
   try {
-    const response = await ghl.objects.getRecordById({
+    const response = await callGhl('objects.getRecordById', () => ghl.objects.getRecordById({
       schemaKey: config.schemas.workshopOfferings,
       id: offeringId,
-    });
+    }));
 
     if (!response.record) return null;
 
-    const record = response.record as unknown as { id: string; properties: Record<string, unknown> };
+    const record = response.record as unknown as ObjectRecord;
     return parseOfferingFromRecord(record);
   } catch (error: any) {
-    if (error?.response?.status === 404) {
+    if (isNotFound(error)) {
       return null;
     }
     throw error;
   }
 }
 
+function toOfferingProperties(input: Partial<OfferingInput>): Record<string, unknown> {
+  const properties: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(OFFERING_FIELDS)) {
+    const value = input[key as keyof OfferingInput];
+    if (value !== undefined) {
+      properties[field] = value;
+    }
+  }
+
+  return properties;
+}
+
+export async function createOfferingRecord(input: OfferingInput): Promise<WorkshopOffering> {
+  const response = await callGhl('objects.createObjectRecord', () => ghl.objects.createObjectRecord(
+    { schemaKey: config.schemas.workshopOfferings },
+    {
+      locationId: config.ghl.locationId,
+      properties: toOfferingProperties(input),
+    } as any
+  ), { idempotent: false });
+
+  const record = response.record as unknown as { id: string };
+  return { id: record.id, ...input };
+}
+
+export async function updateOfferingRecord(offeringId: string, update: Partial<OfferingInput>): Promise<void> {
+  await callGhl('objects.updateObjectRecord', () => ghl.objects.updateObjectRecord(
+    {
+      schemaKey: config.schemas.workshopOfferings,
+      id: offeringId,
+      locationId: config.ghl.locationId,
+    },
+    {
+      properties: toOfferingProperties(update),
+    } as any
+  ));
+}
+
+export async function updateOfferingAvailability(offeringId: string, availability: string): Promise<void> {
+  await updateOfferingRecord(offeringId, { availability });
+}
+
+export async function deleteOfferingRecord(offeringId: string): Promise<void> {
+  await callGhl('objects.deleteObjectRecord', () => ghl.objects.deleteObjectRecord({
+    schemaKey: config.schemas.workshopOfferings,
+    id: offeringId,
+  }));
+}
+
+async function searchAllBookings(filters: RecordFilter[]): Promise<Booking[]> {
+  const records = await searchAllObjectRecords(config.schemas.bookings, filters);
+  return records.map(parseBookingFromRecord);
+}
+
+export async function findBookingsByOffering(offeringId: string): Promise<Booking[]> {
+  return searchAllBookings([
+    {
+      field: `properties.${BOOKING_FIELDS.workshopOfferingId}`,
+      operator: 'eq',
+      value: offeringId,
+    },
+  ]);
+}
+
+export async function findBookingsByStatus(paymentStatus: string): Promise<Booking[]> {
+  return searchAllBookings([
+    {
+      field: `properties.${BOOKING_FIELDS.paymentStatus}`,
+      operator: 'eq',
+      value: paymentStatus,
+    },
+  ]);
+}
+
+export async function findBookingsByPaymentReference(paymentReference: string): Promise<Booking[]> {
+  return searchAllBookings([
+    {
+      field: `properties.${BOOKING_FIELDS.paymentReference}`,
+      operator: 'eq',
+      value: paymentReference,
+    },
+  ]);
+}
+
 export async function findBookingByStudentAndOffering(
   studentContactId: string,
   offeringId: string
 ): Promise<Booking | null> {
-  const response = await ghl.objects.searchObjectRecords(
+  const response = await callGhl('objects.searchObjectRecords', () => ghl.objects.searchObjectRecords(
     { schemaKey: config.schemas.bookings },
     {
       locationId: config.ghl.locationId,
@@ -160,9 +344,9 @@ export async function findBookingByStudentAndOffering(
         },
       ],
     } as any
-  );
+  ));
 
-  const records = (response.records || []) as unknown as Array<{ id: string; properties: Record<string, unknown> }>;
+  const records = (response.records || []) as unknown as ObjectRecord[];
   if (records.length === 0) {
     return null;
   }
@@ -171,7 +355,7 @@ export async function findBookingByStudentAndOffering(
 }
 
 export async function findBookingByBookingId(bookingId: string): Promise<Booking | null> {
-  const response = await ghl.objects.searchObjectRecords(
+  const response = await callGhl('objects.searchObjectRecords', () => ghl.objects.searchObjectRecords(
     { schemaKey: config.schemas.bookings },
     {
       locationId: config.ghl.locationId,
@@ -191,9 +375,9 @@ export async function findBookingByBookingId(bookingId: string): Promise<Booking
         },
       ],
     } as any
-  );
+  ));
 
-  const records = (response.records || []) as unknown as Array<{ id: string; properties: Record<string, unknown> }>;
+  const records = (response.records || []) as unknown as ObjectRecord[];
   if (records.length === 0) {
     return null;
   }
@@ -201,9 +385,48 @@ export async function findBookingByBookingId(bookingId: string): Promise<Booking
   return parseBookingFromRecord(records[0]);
 }
 
+/** Reads a booking straight from its record rather than the search index, which can lag behind writes */
+export async function fetchBookingByRecordId(recordId: string): Promise<Booking | null> {
+  try {
+    const response = await callGhl('objects.getRecordById', () => ghl.objects.getRecordById({
+      schemaKey: config.schemas.bookings,
+      id: recordId,
+    }));
+
+    if (!response.record) return null;
+
+    const record = response.record as unknown as ObjectRecord;
+    return parseBookingFromRecord(record);
+  } catch (error: any) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 export async function updateBooking(
   recordId: string,
-  update: { paymentStatus?: string; webhookTriggered?: boolean; currency?: string; paymentReference?: string }
+  update: {
+    paymentStatus?: string;
+    webhookTriggered?: boolean;
+    currency?: string;
+    paymentReference?: string;
+    offeringPrice?: number;
+    pricePaid?: number;
+    expiresAt?: string;
+    waitlistPosition?: number;
+    amountRefunded?: number;
+    orderId?: string;
+    pricingRule?: string;
+    promoCode?: string;
+    discountAmount?: number;
+    packageId?: string;
+    paymentPlan?: string;
+    amountReceived?: number;
+    paymentPlanReference?: string;
+    paymentMismatch?: string;
+  }
 ): Promise<void> {
   const properties: Record<string, unknown> = {};
 
@@ -219,8 +442,50 @@ export async function updateBooking(
   if (update.paymentReference !== undefined) {
     properties[BOOKING_FIELDS.paymentReference] = update.paymentReference;
   }
+  if (update.offeringPrice !== undefined) {
+    properties[BOOKING_FIELDS.offeringPrice] = update.offeringPrice;
+  }
+  if (update.pricePaid !== undefined) {
+    properties[BOOKING_FIELDS.pricePaid] = update.pricePaid;
+  }
+  if (update.expiresAt !== undefined) {
+    properties[BOOKING_FIELDS.expiresAt] = update.expiresAt;
+  }
+  if (update.waitlistPosition !== undefined) {
+    properties[BOOKING_FIELDS.waitlistPosition] = update.waitlistPosition;
+  }
+  if (update.amountRefunded !== undefined) {
+    properties[BOOKING_FIELDS.amountRefunded] = update.amountRefunded;
+  }
+  if (update.orderId !== undefined) {
+    properties[BOOKING_FIELDS.orderId] = update.orderId;
+  }
+  if (update.pricingRule !== undefined) {
+    properties[BOOKING_FIELDS.pricingRule] = update.pricingRule;
+  }
+  if (update.promoCode !== undefined) {
+    properties[BOOKING_FIELDS.promoCode] = update.promoCode;
+  }
+  if (update.discountAmount !== undefined) {
+    properties[BOOKING_FIELDS.discountAmount] = update.discountAmount;
+  }
+  if (update.packageId !== undefined) {
+    properties[BOOKING_FIELDS.packageId] = update.packageId;
+  }
+  if (update.paymentPlan !== undefined) {
+    properties[BOOKING_FIELDS.paymentPlan] = update.paymentPlan;
+  }
+  if (update.amountReceived !== undefined) {
+    properties[BOOKING_FIELDS.amountReceived] = update.amountReceived;
+  }
+  if (update.paymentPlanReference !== undefined) {
+    properties[BOOKING_FIELDS.paymentPlanReference] = update.paymentPlanReference;
+  }
+  if (update.paymentMismatch !== undefined) {
+    properties[BOOKING_FIELDS.paymentMismatch] = update.paymentMismatch;
+  }
 
-  await ghl.objects.updateObjectRecord(
+  await callGhl('objects.updateObjectRecord', () => ghl.objects.updateObjectRecord(
     {
       schemaKey: config.schemas.bookings,
       id: recordId,
@@ -229,16 +494,24 @@ export async function updateBooking(
     {
       properties,
     } as any
-  );
+  ));
 }
 
-function generateBookingId(): string {
+export function generateBookingId(): string {
   const timestamp = Date.now().toString(36);
   const random = Math.random().toString(36).substring(2, 8);
   return `BK-${timestamp}-${random}`.toUpperCase();
 }
 
+export function generateOrderId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `ORD-${timestamp}-${random}`.toUpperCase();
+}
+
 export async function createBookingRecord(input: {
+  // Generated here unless the caller needs the ID before the record exists
+  bookingId?: string;
   parentContactId: string;
   studentContactId: string;
   workshopOfferingId: string;
@@ -261,8 +534,20 @@ export async function createBookingRecord(input: {
   // Payment
   pricePaid: number;
   currency: string;
+  // Seat hold
+  expiresAt: string;
+  // Waitlist entries are created as `waitlisted` instead of `pending`
+  paymentStatus?: string;
+  waitlistPosition?: number;
+  orderId?: string;
+  // Discount applied, if any
+  pricingRule?: string;
+  promoCode?: string;
+  discountAmount?: number;
+  packageId?: string;
+  paymentPlan?: string;
 }): Promise<{ recordId: string; bookingId: string }> {
-  const bookingId = generateBookingId();
+  const bookingId = input.bookingId ?? generateBookingId();
 
   const properties: Record<string, unknown> = {
     [BOOKING_FIELDS.id]: bookingId,
@@ -288,16 +573,30 @@ export async function createBookingRecord(input: {
     // Payment
     [BOOKING_FIELDS.pricePaid]: input.pricePaid,
     [BOOKING_FIELDS.currency]: input.currency,
-    [BOOKING_FIELDS.paymentStatus]: 'pending',
+    [BOOKING_FIELDS.paymentStatus]: input.paymentStatus ?? PAYMENT_STATUS.PENDING,
+    // Seat hold
+    [BOOKING_FIELDS.expiresAt]: input.expiresAt,
+    // Waitlist
+    [BOOKING_FIELDS.waitlistPosition]: input.waitlistPosition ?? 0,
+    // Orders
+    [BOOKING_FIELDS.orderId]: input.orderId ?? '',
+    // Pricing
+    [BOOKING_FIELDS.pricingRule]: input.pricingRule ?? '',
+    [BOOKING_FIELDS.promoCode]: input.promoCode ?? '',
+    [BOOKING_FIELDS.discountAmount]: input.discountAmount ?? 0,
+    // Packages
+    [BOOKING_FIELDS.packageId]: input.packageId ?? '',
+    // Payment plans
+    [BOOKING_FIELDS.paymentPlan]: input.paymentPlan ?? '',
   };
 
-  const response = await ghl.objects.createObjectRecord(
+  const response = await callGhl('objects.createObjectRecord', () => ghl.objects.createObjectRecord(
     { schemaKey: config.schemas.bookings },
     {
       locationId: config.ghl.locationId,
       properties,
     } as any
-  );
+  ), { idempotent: false });
 
   const record = response.record as unknown as { id: string };
 
@@ -307,38 +606,43 @@ export async function createBookingRecord(input: {
   };
 }
 
+export async function fetchContactById(contactId: string): Promise<Contact | null> {
+  try {
+    const response = await callGhl('contacts.getContact', () => ghl.contacts.getContact({ contactId }));
+
+    if (!response.contact) return null;
+
+    return parseContact(response.contact);
+  } catch (error: any) {
+    if (isNotFound(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
 export async function getOrCreateParentContact(input: {
   firstName: string;
   lastName: string;
   email: string;
   phone: string;
-  workshopTag: string;
+  workshopTags: string[];
 }): Promise<Contact> {
-  const response = await ghl.contacts.upsertContact({
+  const response = await callGhl('contacts.upsertContact', () => ghl.contacts.upsertContact({
     locationId: config.ghl.locationId,
     firstName: input.firstName,
     lastName: input.lastName,
     name: `${input.firstName} ${input.lastName}`,
     email: input.email,
     phone: input.phone,
-    tags: ['parent', input.workshopTag],
+    tags: ['parent', ...input.workshopTags],
     source: 'Workshop Booking Form',
     customFields: [
       { id: CONTACT_CUSTOM_FIELDS.contactType, field_value: 'parent' },
     ],
-  } as any);
-
-  const contact = response.contact as any;
+  } as any));
 
-  return {
-    id: contact.id,
-    firstName: contact.firstName || '',
-    lastName: contact.lastName || '',
-    name: contact.name || '',
-    email: contact.email || '',
-    phone: contact.phone || '',
-    tags: contact.tags || [],
-  };
+  return parseContact(response.contact);
 }
 
 export async function getOrCreateStudentContact(input: {
@@ -346,40 +650,30 @@ export async function getOrCreateStudentContact(input: {
   lastName: string;
   email: string;
   phone: string;
-  workshopTag: string;
+  workshopTags: string[];
   parentContactId: string;
   yearGroup: string;
 }): Promise<Contact> {
-  const response = await ghl.contacts.upsertContact({
+  const response = await callGhl('contacts.upsertContact', () => ghl.contacts.upsertContact({
     locationId: config.ghl.locationId,
     firstName: input.firstName,
     lastName: input.lastName,
     name: `${input.firstName} ${input.lastName}`,
     email: input.email,
     phone: input.phone,
-    tags: ['student', input.workshopTag],
+    tags: ['student', ...input.workshopTags],
     source: 'Workshop Booking Form',
     customFields: [
       { id: CONTACT_CUSTOM_FIELDS.contactType, field_value: 'student' },
       { id: CONTACT_CUSTOM_FIELDS.parentContactId, field_value: input.parentContactId },
       { id: CONTACT_CUSTOM_FIELDS.yearGroup, field_value: input.yearGroup },
     ],
-  } as any);
-
-  const contact = response.contact as any;
+  } as any));
 
-  return {
-    id: contact.id,
-    firstName: contact.firstName || '',
-    lastName: contact.lastName || '',
-    name: contact.name || '',
-    email: contact.email || '',
-    phone: contact.phone || '',
-    tags: contact.tags || [],
-  };
+  return parseContact(response.contact);
 }
 
-export async function triggerBookingWebhook(payload: BookingWebhookPayload): Promise<void> {
+export async function triggerBookingWebhook(payload: GhlWebhookPayload): Promise<void> {
   if (!config.ghl.bookingWebhookUrl) {
     return;
   }
@@ -388,11 +682,12 @@ export async function triggerBookingWebhook(payload: BookingWebhookPayload): Pro
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(config.request.timeoutMs),
   });
 
   if (!response.ok) {
     throw new Error(`GHL webhook returned ${response.status}: ${await response.text().catch(() => '')}`);
   }
 
-  console.log(`Triggered GHL workflow for booking ${payload.booking.bookingId}`);
+  console.log(`Triggered GHL workflow for ${getWebhookSubject(payload)}`);
 }
@@ -0,0 +1,193 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { ApiResponse, Booking, BookingResponse, WorkshopOffering } from './types';
+import { ERROR_CODES, STRIPE_ERROR_CODES } from './types';
+
+const offering: WorkshopOffering = {
+  id: 'offering-1',
+  offering: 'GCSE Maths Revision',
+  intake: 'Spring',
+  yearGroup: 'gcse',
+  subject: 'Maths',
+  workshopDate: '2099-01-01',
+  sessionTime: '10:00',
+  availability: 'available',
+  price: 45,
+  currency: 'gbp',
+  priceLabel: '£45.00',
+  zoomLink: 'https://zoom.us/j/1',
+  stripePriceId: '',
+  capacity: 30,
+  depositAmount: 0,
+  instalments: 0,
+};
+
+// Only one seat, for two students racing for it
+const smallOffering: WorkshopOffering = { ...offering, id: 'offering-2', capacity: 1 };
+const offerings = new Map([offering, smallOffering].map((o) => [o.id, o]));
+
+// An in-memory stand-in for the GHL bookings object
+const records = new Map<string, Booking>();
+const writtenAt = new Map<string, number>();
+let createCalls = 0;
+
+// GHL's search index lags behind writes, so a record only shows up in
+// searches a while after it was created; reads by record ID see it at once.
+const SEARCH_LAG_MS = 1000;
+
+function searchRecords(): Booking[] {
+  const indexedBefore = Date.now() - SEARCH_LAG_MS;
+  return [...records.values()].filter((b) => (writtenAt.get(b.id) ?? 0) <= indexedBefore);
+}
+
+const ghl = await import('./ghl');
+
+mock.module('./ghl', () => ({
+  ...ghl,
+  fetchOfferingById: async (id: string) => offerings.get(id) ?? null,
+  getOrCreateParentContact: async () => ({ id: 'parent-1' }),
+  getOrCreateStudentContact: async (input: { firstName: string }) => ({ id: `student-${input.firstName}` }),
+  fetchBookingByRecordId: async (recordId: string) => {
+    const booking = records.get(recordId);
+    return booking ? { ...booking } : null;
+  },
+  findBookingByStudentAndOffering: async (studentContactId: string, offeringId: string) =>
+    searchRecords().find((b) => b.studentContactId === studentContactId && b.workshopOfferingId === offeringId) ??
+    null,
+  findBookingByBookingId: async (bookingId: string) => searchRecords().find((b) => b.bookingId === bookingId) ?? null,
+  findBookingsByOffering: async (offeringId: string) =>
+    searchRecords().filter((b) => b.workshopOfferingId === offeringId),
+  updateBooking: async (recordId: string, update: Partial<Booking>) => {
+    Object.assign(records.get(recordId)!, update);
+  },
+  createBookingRecord: async (input: Parameters<typeof ghl.createBookingRecord>[0]) => {
+    createCalls++;
+    // GHL takes a while to write, which is when a second request would slip past the lookup
+    await Bun.sleep(20);
+    const recordId = `record-${createCalls}`;
+    const bookingId = input.bookingId ?? `BK-${createCalls}`;
+    records.set(recordId, {
+      ...input,
+      id: recordId,
+      bookingId,
+      paymentStatus: input.paymentStatus ?? 'pending',
+    } as Booking);
+    writtenAt.set(recordId, Date.now());
+    return { recordId, bookingId };
+  },
+}));
+
+const { handleCreateBooking, handleGetBooking } = await import('./handlers');
+const { handleCreateCheckoutSession } = await import('./stripe-handlers');
+const { createCheckoutToken, createOrderCheckoutToken } = await import('./checkout-token');
+const { createMemoryLockProvider, createSqliteLockProvider, setLockProvider } = await import('./lock');
+
+function bookingRequest(offeringId = offering.id, studentName = 'John'): Request {
+  const email = `${studentName.toLowerCase()}@example.com`;
+  return new Request('http://localhost/api/bookings', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      offeringId,
+      parent: { firstName: 'Jane', lastName: 'Doe', email: 'jane@example.com', phone: '07123456789' },
+      student: { firstName: studentName, lastName: 'Doe', email, phone: '07123456789' },
+    }),
+  });
+}
+
+async function submitConcurrently(count: number): Promise<ApiResponse<BookingResponse>[]> {
+  const responses = await Promise.all(Array.from({ length: count }, () => handleCreateBooking(bookingRequest())));
+  return Promise.all(responses.map((response) => response.json() as Promise<ApiResponse<BookingResponse>>));
+}
+
+beforeEach(() => {
+  records.clear();
+  writtenAt.clear();
+  createCalls = 0;
+});
+
+describe('handleCreateBooking under concurrent identical requests', () => {
+  test('creates one GHL booking record with the in-memory lock', async () => {
+    setLockProvider(createMemoryLockProvider());
+
+    const bodies = await submitConcurrently(8);
+
+    expect(createCalls).toBe(1);
+    expect(records.size).toBe(1);
+    // Every request resumes the same pending booking
+    expect(bodies.every((body) => body.success)).toBe(true);
+    expect(new Set(bodies.map((body) => body.data?.bookingId)).size).toBe(1);
+  });
+
+  test('creates one GHL booking record with the SQLite lock', async () => {
+    setLockProvider(createSqliteLockProvider());
+
+    const bodies = await submitConcurrently(8);
+
+    expect(createCalls).toBe(1);
+    expect(records.size).toBe(1);
+    expect(bodies.every((body) => body.success)).toBe(true);
+    expect(new Set(bodies.map((body) => body.data?.bookingId)).size).toBe(1);
+  });
+});
+
+describe('handleCreateBooking for the last seat', () => {
+  test('holds it for one student while GHL search has yet to show their booking', async () => {
+    setLockProvider(createSqliteLockProvider());
+
+    const responses = await Promise.all([
+      handleCreateBooking(bookingRequest(smallOffering.id, 'John')),
+      handleCreateBooking(bookingRequest(smallOffering.id, 'Jack')),
+    ]);
+    const bodies = await Promise.all(responses.map((response) => response.json() as Promise<ApiResponse<unknown>>));
+
+    expect(createCalls).toBe(1);
+    expect(bodies.filter((body) => body.success)).toHaveLength(1);
+    expect(bodies.find((body) => !body.success)?.error?.code).toBe(ERROR_CODES.OFFERING_UNAVAILABLE);
+  });
+});
+
+describe('checkout tokens', () => {
+  const expiresAt = '2099-01-01T10:00:00.000Z';
+
+  beforeEach(() => {
+    for (const bookingId of ['BK-1', 'BK-2']) {
+      records.set(`record-${bookingId}`, {
+        id: `record-${bookingId}`,
+        bookingId,
+        workshopOfferingId: offering.id,
+        paymentStatus: 'pending',
+      } as Booking);
+    }
+  });
+
+  test('POST /api/checkout/session answers an expired token with 410', async () => {
+    const token = createCheckoutToken('BK-1', new Date(Date.now() - 1000).toISOString());
+    const response = await handleCreateCheckoutSession(
+      new Request('http://localhost/api/checkout/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token }),
+      })
+    );
+    const body = (await response.json()) as ApiResponse<unknown>;
+
+    expect(response.status).toBe(410);
+    expect(body.error?.code).toBe(STRIPE_ERROR_CODES.CHECKOUT_TOKEN_EXPIRED);
+  });
+
+  test("GET /api/bookings/:bookingId treats another booking's token as not found", async () => {
+    const token = createCheckoutToken('BK-1', expiresAt);
+    const response = await handleGetBooking(new Request(`http://localhost/api/bookings/BK-2?token=${token}`), 'BK-2');
+    const body = (await response.json()) as ApiResponse<unknown>;
+
+    expect(response.status).toBe(404);
+    expect(body.error?.code).toBe(ERROR_CODES.BOOKING_NOT_FOUND);
+  });
+
+  test('GET /api/bookings/:bookingId treats an order token as not found', async () => {
+    const token = createOrderCheckoutToken('ORD-1', ['record-BK-1'], expiresAt);
+    const response = await handleGetBooking(new Request(`http://localhost/api/bookings/BK-1?token=${token}`), 'BK-1');
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -1,123 +1,882 @@
-import { ZodError } from 'zod';
 import { config } from './config';
-import { offeringsQuerySchema, bookingRequestSchema } from './validation';
+import { successResponse, errorResponse, formatZodError } from './responses';
+import { getTodayDateString } from './dates';
+import type Stripe from 'stripe';
+import { stripe } from './stripe-client';
+import {
+  offeringsQuerySchema,
+  offeringFacetsQuerySchema,
+  bookingRequestSchema,
+  waitlistRequestSchema,
+  bookingLookupQuerySchema,
+  pricingQuoteSchema,
+  packagesQuerySchema,
+} from './validation';
+import type { ContactInput } from './validation';
 import {
-  fetchOfferings,
-  fetchOfferingById,
   getOrCreateParentContact,
   getOrCreateStudentContact,
   findBookingByStudentAndOffering,
+  findBookingByBookingId,
+  findBookingsByOffering,
   createBookingRecord,
+  updateBooking,
+  generateOrderId,
+  generateBookingId,
+  fetchBookingByRecordId,
 } from './ghl';
-import type { ApiResponse, BookingResponse } from './types';
-import { AVAILABILITY, ERROR_CODES } from './types';
-
-function successResponse<T>(data: T): Response {
-  const body: ApiResponse<T> = { success: true, data };
-  return new Response(JSON.stringify(body), {
-    status: 200,
-    headers: { 'Content-Type': 'application/json' },
-  });
+import { getSeatsRemaining, invalidateSeatCount, withSeatsRemaining } from './capacity';
+import { queryOfferings, buildFacets, buildPackageListing } from './catalog';
+import { getCachedOfferings, getCachedOfferingById, createEtag, getCacheControlHeader } from './offerings-cache';
+import { createHoldExpiry, isHoldActive, recordSeatHold } from './holds';
+import { getBookingRecordId, saveBookingRecordId } from './booking-records';
+import { getWaitlistQueue, getNextWaitlistPosition, getWaitlistPosition } from './waitlist';
+import { buildCheckoutUrl, buildOrderCheckoutUrl } from './checkout-url';
+import { verifyCheckoutToken, CheckoutTokenError, createWaitlistToken, isValidWaitlistToken } from './checkout-token';
+import { withLock, withLocks } from './lock';
+import { PricingError, priceBooking, pricePackage, resolvePromoCode } from './pricing';
+import { releasePromoCodeReservations, reservePromoCode } from './promo-codes';
+import { roundMoney } from './currency';
+import { getPackage, listPackages } from './packages';
+import { PaymentPlanError, buildPaymentSchedule, isOnPaymentPlan } from './payment-plans';
+import { ghlCircuitBreaker } from './ghl-client';
+import { UpstreamUnavailableError } from './resilience';
+import type {
+  ApiResponse,
+  Booking,
+  BookingResponse,
+  BookingStatusResponse,
+  HealthResponse,
+  OfferingFacetsResponse,
+  OfferingWithSeats,
+  OrderDuplicate,
+  OrderResponse,
+  OrderStatusResponse,
+  PackageListResponse,
+  PaymentPlan,
+  PricedBooking,
+  PricingQuoteResponse,
+  WaitlistJoinResponse,
+  WaitlistResponse,
+  WorkshopOffering,
+  WorkshopPackage,
+  YearGroupListResponse,
+} from './types';
+import {
+  AVAILABILITY,
+  CIRCUIT_STATE,
+  ERROR_CODES,
+  PAYMENT_PLAN,
+  PAYMENT_STATUS,
+  SEAT_SECURED_STATUSES,
+} from './types';
+
+/** GHL's circuit breaker is open, so fail fast with a hint for when to retry */
+function upstreamUnavailableResponse(error: UpstreamUnavailableError): Response {
+  const response = errorResponse(
+    ERROR_CODES.UPSTREAM_UNAVAILABLE,
+    'The booking system is temporarily unavailable. Please try again shortly.',
+    503
+  );
+  response.headers.set('Retry-After', String(Math.ceil(error.retryAfterMs / 1000)));
+  return response;
 }
 
-function errorResponse(code: string, message: string, status = 400): Response {
-  const body: ApiResponse<never> = {
-    success: false,
-    error: { code, message },
-  };
-  return new Response(JSON.stringify(body), {
-    status,
-    headers: { 'Content-Type': 'application/json' },
+function buildWorkshopTag(offering: WorkshopOffering): string {
+  return `workshop-${offering.yearGroup}-${offering.subject}-${offering.workshopDate}`
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+}
+
+export async function handleHealth(): Promise<Response> {
+  const ghl = ghlCircuitBreaker.getStatus();
+
+  return successResponse<HealthResponse>({
+    status: ghl.state === CIRCUIT_STATE.CLOSED ? 'ok' : 'degraded',
+    timestamp: new Date().toISOString(),
+    upstream: { ghl },
   });
 }
 
-function formatZodError(error: ZodError): string {
-  return error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+export function handleGetYearGroups(): Response {
+  return successResponse<YearGroupListResponse>({ yearGroups: config.yearGroups });
+}
+
+export async function handleGetOfferings(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const param = (name: string) => url.searchParams.get(name) || undefined;
+
+    const parsed = offeringsQuerySchema.safeParse({
+      yearGroup: param('yearGroup'),
+      subject: param('subject'),
+      intake: param('intake'),
+      from: param('from'),
+      to: param('to'),
+      availability: param('availability'),
+      sort: param('sort'),
+    });
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const offerings = queryOfferings(await getCachedOfferings(parsed.data.yearGroup), parsed.data);
+    const body: ApiResponse<OfferingWithSeats[]> = { success: true, data: await withSeatsRemaining(offerings) };
+    const json = JSON.stringify(body);
+    const headers = {
+      'Content-Type': 'application/json',
+      'Cache-Control': getCacheControlHeader(),
+      ETag: createEtag(json),
+    };
+
+    if (request.headers.get('if-none-match') === headers.ETag) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(json, { status: 200, headers });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching offerings:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to fetch offerings',
+      500
+    );
+  }
+}
+
+export async function handleGetOfferingFacets(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const parsed = offeringFacetsQuerySchema.safeParse({
+      yearGroup: url.searchParams.get('yearGroup') || undefined,
+    });
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const yearGroups = parsed.data.yearGroup
+      ? [parsed.data.yearGroup]
+      : config.yearGroups.map((yearGroup) => yearGroup.id);
+    const facets = await Promise.all(
+      yearGroups.map(async (yearGroup) => buildFacets(yearGroup, await getCachedOfferings(yearGroup)))
+    );
+
+    return successResponse<OfferingFacetsResponse>({ yearGroups: facets });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching offering facets:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to fetch offering facets',
+      500
+    );
+  }
+}
+
+export async function handleGetPackages(request: Request): Promise<Response> {
+  try {
+    const url = new URL(request.url);
+    const parsed = packagesQuerySchema.safeParse({
+      yearGroup: url.searchParams.get('yearGroup') || undefined,
+    });
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const packages = listPackages(parsed.data.yearGroup);
+    const packaged = new Set(packages.flatMap((pkg) => pkg.offeringIds));
+    const offerings = (await getCachedOfferings(parsed.data.yearGroup)).filter((o) => packaged.has(o.id));
+    const onSale = new Map((await withSeatsRemaining(offerings)).map((o) => [o.id, o]));
+
+    return successResponse<PackageListResponse>({
+      packages: packages.map((pkg) => buildPackageListing(pkg, onSale)),
+    });
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching packages:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to fetch packages',
+      500
+    );
+  }
+}
+
+/** Reports why an offering can't be booked; `label` names it when an order books several */
+function checkOfferingBookable(offering: WorkshopOffering, today: string, label: string): Response | null {
+  if (offering.availability === AVAILABILITY.INACTIVE) {
+    return errorResponse(ERROR_CODES.OFFERING_UNAVAILABLE, `Workshop is no longer available${label}`);
+  }
+
+  if (offering.availability === AVAILABILITY.FULL) {
+    return errorResponse(ERROR_CODES.OFFERING_UNAVAILABLE, `Workshop is full${label}`);
+  }
+
+  if (offering.workshopDate < today) {
+    return errorResponse(ERROR_CODES.OFFERING_PAST, `Workshop date has passed${label}`);
+  }
+
+  return null;
+}
+
+/** One checkout charges a single currency, so every offering booked together must share one */
+function checkSingleCurrency(offerings: WorkshopOffering[], labelFor: (id: string) => string): Response | null {
+  const [{ currency }] = offerings;
+  const other = offerings.find((offering) => offering.currency !== currency);
+
+  if (other) {
+    return errorResponse(
+      ERROR_CODES.CURRENCY_MISMATCH,
+      `Workshops priced in ${currency.toUpperCase()} and ${other.currency.toUpperCase()} can't be booked together${labelFor(other.id)}`
+    );
+  }
+
+  return null;
 }
 
-function getTodayDateString(): string {
-  const today = new Date();
-  const year = today.getFullYear();
-  const month = String(today.getMonth() + 1).padStart(2, '0');
-  const day = String(today.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
+/**
+ * Finds the student's booking on an offering. A record created by this
+ * server is read by the ID stored when it was written, since GHL's search
+ * can take a while to show it; anything older is found through the search.
+ */
+async function findStudentBooking(studentContactId: string, offeringId: string): Promise<Booking | null> {
+  const recordId = getBookingRecordId(studentContactId, offeringId);
+  const booking = recordId ? await fetchBookingByRecordId(recordId) : null;
+
+  return booking ?? findBookingByStudentAndOffering(studentContactId, offeringId);
+}
+
+/** One student booked onto one offering within a request */
+interface BookingRequestItem {
+  student: ContactInput;
+  studentContactId: string;
+  studentYearGroup: string;
+  offering: WorkshopOffering;
+  pricing: PricedBooking;
 }
 
-function buildCheckoutUrl(params: {
+interface ReservedBooking {
+  recordId: string;
   bookingId: string;
-  parentEmail: string;
-  parentName: string;
-  parentPhone: string;
+  offering: WorkshopOffering;
+  studentContactId: string;
   studentName: string;
-  studentEmail: string;
-  offeringId: string;
-  offeringName: string;
-  subject: string;
-  workshopDate: string;
-  sessionTime: string;
-  yearGroup: string;
-  zoomLink: string;
-  price: number;
-}): string {
-  const queryParams = new URLSearchParams({
-    booking_id: params.bookingId,
-    parent_name: params.parentName,
-    parent_email: params.parentEmail,
-    parent_phone: params.parentPhone,
-    student_name: params.studentName,
-    student_email: params.studentEmail,
-    offering_id: params.offeringId,
-    offering_name: params.offeringName,
-    offering_subject: params.subject,
-    offering_date: params.workshopDate,
-    offering_time: params.sessionTime,
-    offering_year_group: params.yearGroup,
-    offering_zoom_link: params.zoomLink,
-    offering_price: String(params.price),
+  pricing: PricedBooking;
+}
+
+/**
+ * Creates a pending booking, or resumes the student's existing pending,
+ * expired or waitlisted one, holding its seat until `expiresAt`. Called
+ * under the offering lock, so the local hold is in place before the next
+ * booking counts seats.
+ */
+async function reserveBooking(input: {
+  existingBooking: Booking | null;
+  offering: WorkshopOffering;
+  parent: ContactInput;
+  student: ContactInput;
+  parentContactId: string;
+  studentContactId: string;
+  studentYearGroup: string;
+  pricing: PricedBooking;
+  expiresAt: string;
+  bookingId?: string;
+  orderId?: string;
+  packageId?: string;
+  paymentPlan?: PaymentPlan;
+}): Promise<ReservedBooking> {
+  const { existingBooking, offering, parent, student, pricing } = input;
+  const paymentPlan = input.paymentPlan === PAYMENT_PLAN.FULL ? '' : (input.paymentPlan ?? '');
+  const booked = {
+    offering,
+    studentContactId: input.studentContactId,
+    studentName: `${student.firstName} ${student.lastName}`.trim(),
+    pricing,
+  };
+  const priceFields = {
+    offeringPrice: pricing.offeringPrice,
+    pricePaid: pricing.pricePaid,
+    discountAmount: pricing.discountAmount,
+    pricingRule: pricing.pricingRule ?? '',
+    promoCode: pricing.promoCode ?? '',
+  };
+
+  if (existingBooking) {
+    await updateBooking(existingBooking.id, {
+      paymentStatus: PAYMENT_STATUS.PENDING,
+      ...priceFields,
+      expiresAt: input.expiresAt,
+      orderId: input.orderId ?? '',
+      packageId: input.packageId ?? '',
+      currency: offering.currency,
+      paymentPlan,
+      amountReceived: 0,
+      paymentPlanReference: '',
+      paymentMismatch: '',
+    });
+    recordSeatHold(existingBooking.id, offering.id, input.expiresAt);
+    return { recordId: existingBooking.id, bookingId: existingBooking.bookingId, ...booked };
+  }
+
+  const created = await createBookingRecord({
+    bookingId: input.bookingId,
+    parentContactId: input.parentContactId,
+    studentContactId: input.studentContactId,
+    workshopOfferingId: offering.id,
+    parentFirstName: parent.firstName,
+    parentLastName: parent.lastName,
+    parentEmail: parent.email,
+    parentPhone: parent.phone,
+    studentFirstName: student.firstName,
+    studentLastName: student.lastName,
+    studentYearGroup: input.studentYearGroup,
+    yearGroup: offering.yearGroup,
+    subject: offering.subject,
+    workshopDate: offering.workshopDate,
+    sessionTime: offering.sessionTime,
+    zoomLink: offering.zoomLink,
+    ...priceFields,
+    currency: offering.currency,
+    expiresAt: input.expiresAt,
+    orderId: input.orderId,
+    packageId: input.packageId,
+    paymentPlan,
   });
+  saveBookingRecordId(input.studentContactId, offering.id, created.recordId);
+  recordSeatHold(created.recordId, offering.id, input.expiresAt);
 
-  return `${config.checkoutBaseUrl}?${queryParams.toString()}`;
+  return { ...created, ...booked };
 }
 
-export async function handleHealth(): Promise<Response> {
-  return successResponse({ status: 'ok', timestamp: new Date().toISOString() });
+export async function handleCreateBooking(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = bookingRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const { offeringId, offeringIds, packageId, parent, student, students, promoCode, paymentPlan } = parsed.data;
+    const studentInputs = students ?? [student!];
+    let pkg: WorkshopPackage | null = null;
+
+    if (packageId) {
+      pkg = getPackage(packageId);
+
+      if (!pkg || !pkg.active) {
+        return errorResponse(ERROR_CODES.PACKAGE_NOT_FOUND, 'Package not found', 404);
+      }
+
+      if (studentInputs.length * pkg.offeringIds.length > config.orders.maxBookings) {
+        return errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          `students: At most ${config.orders.maxBookings} bookings can be made together`
+        );
+      }
+    }
+
+    const requestedIds = pkg?.offeringIds ?? offeringIds ?? [offeringId!];
+    const isOrder = pkg !== null || offeringIds !== undefined || students !== undefined;
+    const labelFor = (id: string) => (offeringIds || pkg ? ` (offering ${id})` : '');
+
+    const loaded = await Promise.all(requestedIds.map((id) => getCachedOfferingById(id)));
+    const today = getTodayDateString();
+    const offerings: WorkshopOffering[] = [];
+
+    for (const [index, offering] of loaded.entries()) {
+      const label = labelFor(requestedIds[index]);
+
+      if (!offering) {
+        return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, `Offering not found${label}`, 404);
+      }
+
+      const unavailable = checkOfferingBookable(offering, today, label);
+      if (unavailable) return unavailable;
+
+      offerings.push(offering);
+    }
+
+    const mixedCurrencies = checkSingleCurrency(offerings, labelFor);
+    if (mixedCurrencies) return mixedCurrencies;
+
+    // A bad code fails the request before any contact is touched
+    const promo = promoCode ? resolvePromoCode(promoCode) : null;
+    const packagePricing = pkg ? pricePackage(pkg, offerings) : null;
+    // Payment plans are only for single bookings, so price that one booking up front
+    const paymentSchedule = isOrder
+      ? null
+      : buildPaymentSchedule(paymentPlan, offerings[0], priceBooking(offerings[0], { today, promo }).pricePaid, today);
+    const workshopTags = offerings.map(buildWorkshopTag);
+
+    const parentContact = await getOrCreateParentContact({
+      firstName: parent.firstName,
+      lastName: parent.lastName,
+      email: parent.email,
+      phone: parent.phone,
+      workshopTags,
+    });
+
+    // One at a time, so two siblings' upserts can't race each other in GHL
+    const requests: BookingRequestItem[] = [];
+    for (const [studentIndex, input] of studentInputs.entries()) {
+      const studentYearGroup = input.yearGroup ?? offerings[0].yearGroup;
+      const studentContact = await getOrCreateStudentContact({
+        firstName: input.firstName,
+        lastName: input.lastName,
+        email: input.email,
+        phone: input.phone,
+        workshopTags,
+        parentContactId: parentContact.id,
+        yearGroup: studentYearGroup,
+      });
+
+      // GHL merges contacts that share an email or phone number, which would
+      // leave two siblings sharing one booking.
+      if (requests.some((item) => item.studentContactId === studentContact.id)) {
+        return errorResponse(
+          ERROR_CODES.VALIDATION_ERROR,
+          `${input.firstName} ${input.lastName} matched another student's contact; give each student their own email address and phone number`
+        );
+      }
+
+      for (const [offeringIndex, offering] of offerings.entries()) {
+        requests.push({
+          student: input,
+          studentContactId: studentContact.id,
+          studentYearGroup,
+          offering,
+          pricing: packagePricing?.[offeringIndex] ?? priceBooking(offering, { today, studentIndex, promo }),
+        });
+      }
+    }
+
+    // Serialise requests for the same student and offering so concurrent
+    // submissions can't both miss the existing booking and create another,
+    // and hold each offering so two students can't both take its last seat.
+    const lockKeys = [
+      ...requests.map((item) => `booking:${item.studentContactId}:${item.offering.id}`),
+      ...offerings.map((offering) => `offering:${offering.id}`),
+    ];
+    const reservation = await withLocks(lockKeys, async () => {
+      const existingBookings = await Promise.all(
+        requests.map((item) => findStudentBooking(item.studentContactId, item.offering.id))
+      );
+
+      const toReserve: Array<{ item: BookingRequestItem; existingBooking: Booking | null }> = [];
+      const duplicates: OrderDuplicate[] = [];
+      const seatsNeeded = new Map<string, number>();
+
+      for (const [index, item] of requests.entries()) {
+        const existingBooking = existingBookings[index];
+
+        // Pending, expired and waitlisted bookings are resumed rather than
+        // duplicated, so each student has at most one booking record per offering.
+        if (
+          existingBooking &&
+          existingBooking.paymentStatus !== PAYMENT_STATUS.PENDING &&
+          existingBooking.paymentStatus !== PAYMENT_STATUS.EXPIRED &&
+          existingBooking.paymentStatus !== PAYMENT_STATUS.WAITLISTED
+        ) {
+          if (!isOrder) {
+            return errorResponse(ERROR_CODES.DUPLICATE_BOOKING, 'Student already booked for this workshop');
+          }
+
+          // A package is sold whole, so it can't leave out a workshop the student already has
+          if (pkg) {
+            const studentName = `${item.student.firstName} ${item.student.lastName}`.trim();
+            return errorResponse(
+              ERROR_CODES.DUPLICATE_BOOKING,
+              `${studentName} is already booked on a workshop in this package${labelFor(item.offering.id)}`
+            );
+          }
+
+          // An order books whatever is left and reports the rest per student
+          duplicates.push({
+            studentContactId: item.studentContactId,
+            studentName: `${item.student.firstName} ${item.student.lastName}`.trim(),
+            offeringId: item.offering.id,
+            bookingId: existingBooking.bookingId,
+            paymentStatus: existingBooking.paymentStatus,
+          });
+          continue;
+        }
+
+        toReserve.push({ item, existingBooking });
+
+        // A booking whose hold is still live already counts towards capacity
+        if (!existingBooking || !isHoldActive(existingBooking)) {
+          seatsNeeded.set(item.offering.id, (seatsNeeded.get(item.offering.id) ?? 0) + 1);
+        }
+      }
+
+      if (toReserve.length === 0) {
+        return errorResponse(
+          ERROR_CODES.DUPLICATE_BOOKING,
+          'Every student is already booked for these workshops'
+        );
+      }
+
+      // Every offering is checked before anything is written, so an order
+      // either reserves all of its seats or none of them.
+      for (const offering of offerings) {
+        const needed = seatsNeeded.get(offering.id);
+        if (!needed) continue;
+
+        const seatsRemaining = await getSeatsRemaining(offering);
+        if (seatsRemaining === 0) {
+          return errorResponse(ERROR_CODES.OFFERING_UNAVAILABLE, `Workshop is full${labelFor(offering.id)}`);
+        }
+        if (seatsRemaining !== null && seatsRemaining < needed) {
+          return errorResponse(
+            ERROR_CODES.OFFERING_UNAVAILABLE,
+            `Only ${seatsRemaining} of ${needed} seats are left${labelFor(offering.id)}`
+          );
+        }
+      }
+
+      const orderId = isOrder ? generateOrderId() : undefined;
+      // A single booking's ID is its promo code reference, so a new one is picked before it's written
+      const bookingId = orderId ? undefined : (toReserve[0].existingBooking?.bookingId ?? generateBookingId());
+      const promoReference = orderId ?? bookingId!;
+      const expiresAt = createHoldExpiry();
+      const usesPromo = promo !== null && toReserve.some(({ item }) => item.pricing.promoCode);
+
+      // The code was checked up front, but concurrent bookings may have taken its last use since
+      if (usesPromo && !reservePromoCode(promo.code, promoReference, expiresAt)) {
+        return errorResponse(ERROR_CODES.PROMO_CODE_INVALID, 'Promo code has been used up');
+      }
+
+      const bookings: ReservedBooking[] = [];
+
+      try {
+        for (const { item, existingBooking } of toReserve) {
+          bookings.push(
+            await reserveBooking({
+              existingBooking,
+              offering: item.offering,
+              parent,
+              student: item.student,
+              parentContactId: parentContact.id,
+              studentContactId: item.studentContactId,
+              studentYearGroup: item.studentYearGroup,
+              pricing: item.pricing,
+              expiresAt,
+              bookingId,
+              orderId,
+              packageId: pkg?.id,
+              paymentPlan,
+            })
+          );
+        }
+      } catch (error) {
+        // A failed request returns no checkout link, so nothing written can be paid with the code
+        if (usesPromo) releasePromoCodeReservations(promoReference);
+        throw error;
+      }
+
+      return { orderId, expiresAt, bookings, duplicates };
+    });
+
+    if (reservation instanceof Response) return reservation;
+
+    for (const offering of offerings) {
+      invalidateSeatCount(offering.id);
+    }
+
+    const { orderId, expiresAt, bookings, duplicates } = reservation;
+
+    if (orderId) {
+      const response: OrderResponse = {
+        orderId,
+        packageId: pkg?.id ?? null,
+        parentContactId: parentContact.id,
+        studentContactIds: [...new Set(requests.map((item) => item.studentContactId))],
+        bookings: bookings.map((booking) => ({
+          bookingId: booking.bookingId,
+          recordId: booking.recordId,
+          offeringId: booking.offering.id,
+          studentContactId: booking.studentContactId,
+          studentName: booking.studentName,
+          offeringPrice: booking.pricing.offeringPrice,
+          pricePaid: booking.pricing.pricePaid,
+          pricingRule: booking.pricing.pricingRule,
+        })),
+        duplicates,
+        total: roundMoney(
+          bookings.reduce((sum, booking) => sum + booking.pricing.pricePaid, 0),
+          offerings[0].currency
+        ),
+        currency: offerings[0].currency,
+        checkoutUrl: buildOrderCheckoutUrl({
+          orderId,
+          recordIds: bookings.map((booking) => booking.recordId),
+          expiresAt,
+        }),
+        expiresAt,
+      };
+
+      return successResponse(response);
+    }
+
+    const [booking] = bookings;
+    const checkoutUrl = buildCheckoutUrl({ bookingId: booking.bookingId, expiresAt });
+
+    const response: BookingResponse = {
+      bookingId: booking.bookingId,
+      recordId: booking.recordId,
+      parentContactId: parentContact.id,
+      studentContactId: booking.studentContactId,
+      offeringPrice: booking.pricing.offeringPrice,
+      pricePaid: booking.pricing.pricePaid,
+      pricingRule: booking.pricing.pricingRule,
+      currency: booking.offering.currency,
+      paymentSchedule: paymentSchedule!,
+      checkoutUrl,
+      expiresAt,
+    };
+
+    return successResponse(response);
+  } catch (error) {
+    if (error instanceof PricingError) return errorResponse(error.code, error.message);
+    if (error instanceof PaymentPlanError) return errorResponse(error.code, error.message);
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error creating booking:', error);
+    return errorResponse(
+      ERROR_CODES.CREATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to create booking',
+      500
+    );
+  }
 }
 
-export async function handleGetOfferings(request: Request): Promise<Response> {
+/** Prices a booking request without reserving anything, so the form can show the total up front */
+export async function handlePricingQuote(request: Request): Promise<Response> {
+  try {
+    const body = await request.json();
+    const parsed = pricingQuoteSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
+    }
+
+    const { offeringId, offeringIds, studentCount, promoCode } = parsed.data;
+    const requestedIds = offeringIds ?? [offeringId!];
+    const loaded = await Promise.all(requestedIds.map((id) => getCachedOfferingById(id)));
+    const offerings: WorkshopOffering[] = [];
+
+    for (const [index, offering] of loaded.entries()) {
+      if (!offering) {
+        const label = offeringIds ? ` (offering ${requestedIds[index]})` : '';
+        return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, `Offering not found${label}`, 404);
+      }
+      offerings.push(offering);
+    }
+
+    const mixedCurrencies = checkSingleCurrency(offerings, (id) => (offeringIds ? ` (offering ${id})` : ''));
+    if (mixedCurrencies) return mixedCurrencies;
+
+    const promo = promoCode ? resolvePromoCode(promoCode) : null;
+    const today = getTodayDateString();
+    const items: PricingQuoteResponse['items'] = [];
+
+    for (let studentIndex = 0; studentIndex < studentCount; studentIndex++) {
+      for (const offering of offerings) {
+        const pricing = priceBooking(offering, { today, studentIndex, promo });
+        items.push({ offeringId: offering.id, studentIndex, ...pricing });
+      }
+    }
+
+    const { currency } = offerings[0];
+    const subtotal = roundMoney(items.reduce((sum, item) => sum + item.offeringPrice, 0), currency);
+    const total = roundMoney(items.reduce((sum, item) => sum + item.pricePaid, 0), currency);
+
+    return successResponse<PricingQuoteResponse>({
+      items,
+      subtotal,
+      discount: roundMoney(subtotal - total, currency),
+      total,
+      currency,
+    });
+  } catch (error) {
+    if (error instanceof PricingError) return errorResponse(error.code, error.message);
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error quoting price:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to quote price',
+      500
+    );
+  }
+}
+
+/**
+ * Confirms the caller was the one who paid for this booking by checking that
+ * the Stripe Checkout Session they were returned from belongs to it.
+ */
+async function verifyBookingSession(bookingId: string, sessionId: string): Promise<{ paid: boolean } | null> {
+  try {
+    const session = await stripe.checkout.sessions.retrieve(sessionId);
+
+    if (session.client_reference_id !== bookingId && session.metadata?.bookingId !== bookingId) {
+      return null;
+    }
+
+    return { paid: session.payment_status === 'paid' };
+  } catch (error: any) {
+    if (error?.type === 'StripeInvalidRequestError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/** A checkout token for the booking is accepted as proof too; it says nothing about Stripe's side */
+async function verifyBookingToken(bookingId: string, token: string): Promise<{ paid: boolean } | null> {
+  try {
+    const subject = verifyCheckoutToken(token);
+    return 'bookingId' in subject && subject.bookingId === bookingId ? { paid: false } : null;
+  } catch (error) {
+    if (error instanceof CheckoutTokenError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function buildBookingStatus(booking: Booking, sessionPaid: boolean): Promise<BookingStatusResponse> {
+  const offering = await getCachedOfferingById(booking.workshopOfferingId);
+  const isSecured = SEAT_SECURED_STATUSES.includes(booking.paymentStatus);
+  const onPlan = isOnPaymentPlan(booking);
+
+  return {
+    bookingId: booking.bookingId,
+    paymentStatus: booking.paymentStatus,
+    paymentReceived: isSecured || sessionPaid,
+    offering: {
+      id: booking.workshopOfferingId,
+      name: offering?.offering || '',
+      subject: booking.subject,
+      workshopDate: booking.workshopDate,
+      sessionTime: booking.sessionTime,
+      yearGroup: booking.yearGroup,
+    },
+    studentName: `${booking.studentFirstName} ${booking.studentLastName}`.trim(),
+    pricePaid: booking.pricePaid,
+    currency: booking.currency,
+    paymentPlan: onPlan ? (booking.paymentPlan as PaymentPlan) : null,
+    amountReceived: onPlan
+      ? booking.amountReceived
+      : booking.paymentStatus === PAYMENT_STATUS.PAID
+        ? booking.pricePaid
+        : 0,
+    zoomLink: isSecured ? booking.zoomLink : null,
+  };
+}
+
+export async function handleGetBooking(request: Request, bookingId: string): Promise<Response> {
   try {
     const url = new URL(request.url);
-    const yearGroup = url.searchParams.get('yearGroup');
+    const parsed = bookingLookupQuerySchema.safeParse({
+      sessionId: url.searchParams.get('session_id') || undefined,
+      token: url.searchParams.get('token') || undefined,
+    });
 
-    const parsed = offeringsQuerySchema.safeParse({ yearGroup });
     if (!parsed.success) {
       return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
     }
 
-    const offerings = await fetchOfferings(parsed.data.yearGroup);
+    const { sessionId, token } = parsed.data;
+
+    const [booking, session] = await Promise.all([
+      findBookingByBookingId(bookingId),
+      sessionId ? verifyBookingSession(bookingId, sessionId) : verifyBookingToken(bookingId, token!),
+    ]);
+
+    // Unknown bookings and bookings the caller can't prove access to look the
+    // same, so booking IDs can't be probed.
+    if (!booking || !session) {
+      return errorResponse(ERROR_CODES.BOOKING_NOT_FOUND, 'Booking not found', 404);
+    }
+
+    return successResponse(await buildBookingStatus(booking, session.paid));
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching booking:', error);
+    return errorResponse(
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to fetch booking',
+      500
+    );
+  }
+}
+
+/**
+ * Order status for the confirmation page. Only the Stripe Checkout Session
+ * the caller was returned from proves access, and it also lists the order's
+ * booking records.
+ */
+export async function handleGetOrder(request: Request, orderId: string): Promise<Response> {
+  try {
+    const sessionId = new URL(request.url).searchParams.get('session_id');
+
+    if (!sessionId) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'session_id is required');
+    }
+
+    let session: Stripe.Checkout.Session | null = null;
+    try {
+      session = await stripe.checkout.sessions.retrieve(sessionId);
+    } catch (error: any) {
+      if (error?.type !== 'StripeInvalidRequestError') throw error;
+    }
+
+    // Unknown orders and orders the caller can't prove access to look the same
+    if (!session || session.client_reference_id !== orderId || session.metadata?.orderId !== orderId) {
+      return errorResponse(ERROR_CODES.ORDER_NOT_FOUND, 'Order not found', 404);
+    }
+
+    const recordIds = (session.metadata.bookingRecordIds || '').split(',').filter(Boolean);
+    const bookings = await Promise.all(recordIds.map((recordId) => fetchBookingByRecordId(recordId)));
+    const paid = session.payment_status === 'paid';
 
-    return successResponse(offerings);
+    const response: OrderStatusResponse = {
+      orderId,
+      paymentReceived: paid,
+      bookings: await Promise.all(
+        bookings
+          .filter((booking): booking is Booking => booking !== null && booking.orderId === orderId)
+          .map((booking) => buildBookingStatus(booking, paid))
+      ),
+    };
+
+    return successResponse(response);
   } catch (error) {
-    console.error('Error fetching offerings:', error);
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching order:', error);
     return errorResponse(
       ERROR_CODES.FETCH_ERROR,
-      error instanceof Error ? error.message : 'Failed to fetch offerings',
+      error instanceof Error ? error.message : 'Failed to fetch order',
       500
     );
   }
 }
 
-export async function handleCreateBooking(request: Request): Promise<Response> {
+export async function handleJoinWaitlist(request: Request, offeringId: string): Promise<Response> {
   try {
     const body = await request.json();
-    const parsed = bookingRequestSchema.safeParse(body);
+    const parsed = waitlistRequestSchema.safeParse(body);
 
     if (!parsed.success) {
       return errorResponse(ERROR_CODES.VALIDATION_ERROR, formatZodError(parsed.error));
     }
 
-    const { offeringId, parent, student } = parsed.data;
+    const { parent, student } = parsed.data;
 
-    const offering = await fetchOfferingById(offeringId);
+    const offering = await getCachedOfferingById(offeringId);
 
     if (!offering) {
       return errorResponse(ERROR_CODES.OFFERING_NOT_FOUND, 'Offering not found', 404);
@@ -127,25 +886,27 @@ export async function handleCreateBooking(request: Request): Promise<Response> {
       return errorResponse(ERROR_CODES.OFFERING_UNAVAILABLE, 'Workshop is no longer available');
     }
 
-    if (offering.availability === AVAILABILITY.FULL) {
-      return errorResponse(ERROR_CODES.OFFERING_UNAVAILABLE, 'Workshop is full');
-    }
-
     const today = getTodayDateString();
     if (offering.workshopDate < today) {
       return errorResponse(ERROR_CODES.OFFERING_PAST, 'Workshop date has passed');
     }
 
-    const workshopTag = `workshop-${offering.yearGroup}-${offering.subject}-${offering.workshopDate}`
-      .toLowerCase()
-      .replace(/\s+/g, '-');
+    if (offering.availability !== AVAILABILITY.FULL) {
+      const seatsRemaining = await getSeatsRemaining(offering);
+      if (seatsRemaining !== 0) {
+        return errorResponse(ERROR_CODES.WAITLIST_NOT_REQUIRED, 'Workshop still has seats available', 409);
+      }
+    }
+
+    const workshopTag = `waitlist-${buildWorkshopTag(offering)}`;
+    const studentYearGroup = student.yearGroup ?? offering.yearGroup;
 
     const parentContact = await getOrCreateParentContact({
       firstName: parent.firstName,
       lastName: parent.lastName,
       email: parent.email,
       phone: parent.phone,
-      workshopTag,
+      workshopTags: [workshopTag],
     });
 
     const studentContact = await getOrCreateStudentContact({
@@ -153,101 +914,143 @@ export async function handleCreateBooking(request: Request): Promise<Response> {
       lastName: student.lastName,
       email: student.email,
       phone: student.phone,
-      workshopTag,
+      workshopTags: [workshopTag],
       parentContactId: parentContact.id,
-      yearGroup: offering.yearGroup,
+      yearGroup: studentYearGroup,
     });
 
-    const existingBooking = await findBookingByStudentAndOffering(studentContact.id, offeringId);
+    // Positions are handed out per offering, and promotions reorder the queue,
+    // so joins for an offering run one at a time.
+    const result = await withLock(`offering:${offering.id}`, async () => {
+      const [bookings, existingBooking] = await Promise.all([
+        findBookingsByOffering(offering.id),
+        findStudentBooking(studentContact.id, offering.id),
+      ]);
 
-    if (existingBooking) {
-      if (existingBooking.paymentStatus === 'pending') {
-        const checkoutUrl = buildCheckoutUrl({
-          bookingId: existingBooking.bookingId,
+      if (existingBooking?.paymentStatus === PAYMENT_STATUS.WAITLISTED) {
+        const response: WaitlistJoinResponse = {
+          waitlistId: existingBooking.bookingId,
+          offeringId: offering.id,
+          paymentStatus: existingBooking.paymentStatus,
+          position: getWaitlistPosition(existingBooking, bookings),
+          waitlistToken: createWaitlistToken(existingBooking.bookingId),
+        };
+
+        return response;
+      }
+
+      if (existingBooking && existingBooking.paymentStatus !== PAYMENT_STATUS.EXPIRED) {
+        return errorResponse(
+          ERROR_CODES.DUPLICATE_BOOKING,
+          'Student already booked for this workshop'
+        );
+      }
+
+      const waitlistPosition = getNextWaitlistPosition(bookings);
+      let waitlistId: string;
+
+      if (existingBooking) {
+        await updateBooking(existingBooking.id, {
+          paymentStatus: PAYMENT_STATUS.WAITLISTED,
+          expiresAt: '',
+          waitlistPosition,
+        });
+        waitlistId = existingBooking.bookingId;
+      } else {
+        const booking = await createBookingRecord({
+          parentContactId: parentContact.id,
+          studentContactId: studentContact.id,
+          workshopOfferingId: offering.id,
+          parentFirstName: parent.firstName,
+          parentLastName: parent.lastName,
           parentEmail: parent.email,
-          parentName: `${parent.firstName} ${parent.lastName}`,
           parentPhone: parent.phone,
-          studentName: `${student.firstName} ${student.lastName}`,
-          studentEmail: student.email,
-          offeringId,
-          offeringName: offering.offering,
+          studentFirstName: student.firstName,
+          studentLastName: student.lastName,
+          studentYearGroup,
+          yearGroup: offering.yearGroup,
           subject: offering.subject,
           workshopDate: offering.workshopDate,
           sessionTime: offering.sessionTime,
-          yearGroup: offering.yearGroup,
           zoomLink: offering.zoomLink,
-          price: offering.price,
+          offeringPrice: offering.price,
+          pricePaid: offering.price,
+          currency: offering.currency,
+          expiresAt: '',
+          paymentStatus: PAYMENT_STATUS.WAITLISTED,
+          waitlistPosition,
         });
+        saveBookingRecordId(studentContact.id, offering.id, booking.recordId);
+        waitlistId = booking.bookingId;
+      }
 
-        const response: BookingResponse = {
-          bookingId: existingBooking.bookingId,
-          recordId: existingBooking.id,
-          parentContactId: parentContact.id,
-          studentContactId: studentContact.id,
-          checkoutUrl,
-        };
+      const response: WaitlistJoinResponse = {
+        waitlistId,
+        offeringId: offering.id,
+        paymentStatus: PAYMENT_STATUS.WAITLISTED,
+        // New entries always join at the back of the queue
+        position: getWaitlistQueue(bookings).length + 1,
+        waitlistToken: createWaitlistToken(waitlistId),
+      };
 
-        return successResponse(response);
-      }
+      return response;
+    });
 
-      return errorResponse(
-        ERROR_CODES.DUPLICATE_BOOKING,
-        'Student already booked for this workshop'
-      );
+    if (result instanceof Response) return result;
+
+    return successResponse(result);
+  } catch (error) {
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error joining waitlist:', error);
+    return errorResponse(
+      ERROR_CODES.CREATE_ERROR,
+      error instanceof Error ? error.message : 'Failed to join waitlist',
+      500
+    );
+  }
+}
+
+/** The `token` returned when the parent joined proves access to the entry */
+export async function handleGetWaitlistPosition(
+  request: Request,
+  offeringId: string,
+  waitlistId: string
+): Promise<Response> {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+
+    if (!token) {
+      return errorResponse(ERROR_CODES.VALIDATION_ERROR, 'token is required');
     }
 
-    const booking = await createBookingRecord({
-      parentContactId: parentContact.id,
-      studentContactId: studentContact.id,
-      workshopOfferingId: offeringId,
-      parentFirstName: parent.firstName,
-      parentLastName: parent.lastName,
-      parentEmail: parent.email,
-      parentPhone: parent.phone,
-      studentFirstName: student.firstName,
-      studentLastName: student.lastName,
-      studentYearGroup: offering.yearGroup,
-      yearGroup: offering.yearGroup,
-      subject: offering.subject,
-      workshopDate: offering.workshopDate,
-      sessionTime: offering.sessionTime,
-      zoomLink: offering.zoomLink,
-      offeringPrice: offering.price,
-      pricePaid: offering.price,
-      currency: config.stripe.currency,
-    });
+    // Unknown entries and entries the caller can't prove access to look the same
+    if (!isValidWaitlistToken(waitlistId, token)) {
+      return errorResponse(ERROR_CODES.WAITLIST_ENTRY_NOT_FOUND, 'Waitlist entry not found', 404);
+    }
 
-    const checkoutUrl = buildCheckoutUrl({
-      bookingId: booking.bookingId,
-      parentEmail: parent.email,
-      parentName: `${parent.firstName} ${parent.lastName}`,
-      parentPhone: parent.phone,
-      studentName: `${student.firstName} ${student.lastName}`,
-      studentEmail: student.email,
-      offeringId,
-      offeringName: offering.offering,
-      subject: offering.subject,
-      workshopDate: offering.workshopDate,
-      sessionTime: offering.sessionTime,
-      yearGroup: offering.yearGroup,
-      zoomLink: offering.zoomLink,
-      price: offering.price,
-    });
+    const entry = await findBookingByBookingId(waitlistId);
 
-    const response: BookingResponse = {
-      bookingId: booking.bookingId,
-      recordId: booking.recordId,
-      parentContactId: parentContact.id,
-      studentContactId: studentContact.id,
-      checkoutUrl,
+    if (!entry || entry.workshopOfferingId !== offeringId || !entry.waitlistPosition) {
+      return errorResponse(ERROR_CODES.WAITLIST_ENTRY_NOT_FOUND, 'Waitlist entry not found', 404);
+    }
+
+    const bookings =
+      entry.paymentStatus === PAYMENT_STATUS.WAITLISTED ? await findBookingsByOffering(offeringId) : [];
+
+    const response: WaitlistResponse = {
+      waitlistId: entry.bookingId,
+      offeringId,
+      paymentStatus: entry.paymentStatus,
+      position: getWaitlistPosition(entry, bookings),
     };
 
     return successResponse(response);
   } catch (error) {
-    console.error('Error creating booking:', error);
+    if (error instanceof UpstreamUnavailableError) return upstreamUnavailableResponse(error);
+    console.error('Error fetching waitlist position:', error);
     return errorResponse(
-      ERROR_CODES.CREATE_ERROR,
-      error instanceof Error ? error.message : 'Failed to create booking',
+      ERROR_CODES.FETCH_ERROR,
+      error instanceof Error ? error.message : 'Failed to fetch waitlist position',
       500
     );
   }
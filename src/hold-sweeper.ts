@@ -0,0 +1,101 @@
+import { config } from './config';
+import { findBookingsByStatus, fetchBookingByRecordId, updateBooking } from './ghl';
+import { releaseSeats } from './waitlist';
+import { withLock } from './lock';
+import { releaseSeatHold } from './holds';
+import { getPromoCodeReference, releasePromoCodeReservations } from './promo-codes';
+import { PAYMENT_STATUS } from './types';
+
+// Holds are only swept once they have been expired for a while. The Stripe
+// session ends exactly at the hold's expiry, so by the time the grace period
+// has passed any last-second payment has already been recorded by the webhook.
+const SWEEP_GRACE_MS = 5 * 60 * 1000;
+
+/**
+ * Marks pending bookings whose seat hold has lapsed as `expired` and releases
+ * their seats to the waitlist. Safe to run from several instances at once:
+ * each booking is re-read from its record before being written, and marking
+ * an already expired booking as expired again is a no-op.
+ */
+export async function sweepExpiredHolds(now = Date.now()): Promise<number> {
+  const pending = await findBookingsByStatus(PAYMENT_STATUS.PENDING);
+  const cutoff = now - SWEEP_GRACE_MS;
+  const releasedOfferings = new Set<string>();
+  let expired = 0;
+
+  for (const candidate of pending) {
+    if (!candidate.expiresAt || Date.parse(candidate.expiresAt) > cutoff) continue;
+
+    let wasExpired: boolean;
+
+    // One stuck or failing booking must not hold up every hold after it
+    try {
+      wasExpired = await withLock(`booking:${candidate.bookingId}`, async () => {
+        const booking = await fetchBookingByRecordId(candidate.id);
+
+        if (
+          !booking ||
+          booking.paymentStatus !== PAYMENT_STATUS.PENDING ||
+          !booking.expiresAt ||
+          Date.parse(booking.expiresAt) > cutoff
+        ) {
+          return false;
+        }
+
+        await updateBooking(booking.id, { paymentStatus: PAYMENT_STATUS.EXPIRED });
+        releaseSeatHold(booking.id);
+        releasePromoCodeReservations(getPromoCodeReference(booking));
+        console.log(`Hold sweeper: Booking ${booking.bookingId} marked as expired`);
+        return true;
+      });
+    } catch (error) {
+      console.error(`Hold sweeper: Failed to expire booking ${candidate.bookingId}:`, error);
+      continue;
+    }
+
+    if (wasExpired) {
+      releasedOfferings.add(candidate.workshopOfferingId);
+      expired++;
+    }
+  }
+
+  for (const offeringId of releasedOfferings) {
+    try {
+      await releaseSeats(offeringId);
+    } catch (error) {
+      console.error(`Hold sweeper: Failed to release seats on offering ${offeringId}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/** Starts the periodic sweep and returns a function that stops it */
+export function startHoldSweeper(): () => void {
+  const intervalMs = config.holds.sweepIntervalMs;
+  let running = false;
+  let interval: ReturnType<typeof setInterval> | undefined;
+
+  const sweep = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await sweepExpiredHolds();
+    } catch (error) {
+      console.error('Hold sweeper failed:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  // Stagger the first run so instances started together don't sweep in lockstep
+  const timeout = setTimeout(() => {
+    sweep();
+    interval = setInterval(sweep, intervalMs);
+  }, Math.floor(Math.random() * intervalMs));
+
+  return () => {
+    clearTimeout(timeout);
+    if (interval) clearInterval(interval);
+  };
+}
@@ -0,0 +1,95 @@
+import { config } from './config';
+import { getDatabase } from './db';
+import type { Booking } from './types';
+import { PAYMENT_STATUS } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+// Stripe only accepts a Checkout Session `expires_at` between 30 minutes and
+// 24 hours from creation; holds are clamped to the same window so the session
+// can always be aligned with the hold. One minute of headroom covers the time
+// between computing the expiry and Stripe receiving the request.
+const MIN_HOLD_MINUTES = 31;
+const MAX_HOLD_MINUTES = 24 * 60;
+
+function clampHoldMinutes(minutes: number): number {
+  return Math.min(Math.max(minutes, MIN_HOLD_MINUTES), MAX_HOLD_MINUTES);
+}
+
+export function createHoldExpiry(minutes: number = config.holds.durationMinutes, now = Date.now()): string {
+  return new Date(now + clampHoldMinutes(minutes) * MINUTE_MS).toISOString();
+}
+
+/** Pending bookings hold a seat until `expiresAt`; bookings without one never hold a seat */
+export function isHoldActive(booking: Booking, now = Date.now()): boolean {
+  if (booking.paymentStatus !== PAYMENT_STATUS.PENDING || !booking.expiresAt) {
+    return false;
+  }
+
+  const expiresAt = Date.parse(booking.expiresAt);
+  return !isNaN(expiresAt) && expiresAt > now;
+}
+
+/**
+ * Returns the expiry to use for a Checkout Session on this booking: the hold's
+ * own expiry, pushed out to Stripe's minimum session lifetime if the hold is
+ * about to lapse. Callers must persist the result when it differs from
+ * `booking.expiresAt` so the hold never ends before the session does.
+ */
+export function getCheckoutHoldExpiry(booking: Booking, now = Date.now()): string {
+  const earliest = now + MIN_HOLD_MINUTES * MINUTE_MS;
+  const latest = now + MAX_HOLD_MINUTES * MINUTE_MS;
+  const expiresAt = Date.parse(booking.expiresAt);
+
+  return new Date(Math.min(Math.max(expiresAt, earliest), latest)).toISOString();
+}
+
+let initialised = false;
+
+function getHoldsDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS seat_holds (
+        record_id TEXT PRIMARY KEY,
+        offering_id TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS seat_holds_offering ON seat_holds (offering_id, expires_at)');
+    initialised = true;
+  }
+
+  return db;
+}
+
+/**
+ * Records a booking's seat hold locally. GHL's search index can take a while
+ * to show a booking that was just written, so seat counts read these rows
+ * too; callers write them under the offering lock the count was taken under.
+ */
+export function recordSeatHold(recordId: string, offeringId: string, expiresAt: string): void {
+  getHoldsDatabase()
+    .query(
+      `INSERT INTO seat_holds (record_id, offering_id, expires_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (record_id) DO UPDATE SET offering_id = excluded.offering_id, expires_at = excluded.expires_at`
+    )
+    .run(recordId, offeringId, expiresAt);
+}
+
+/** Drops a booking's local hold once it expires, is cancelled or is refunded */
+export function releaseSeatHold(recordId: string): void {
+  getHoldsDatabase().query('DELETE FROM seat_holds WHERE record_id = ?').run(recordId);
+}
+
+/** Returns the record IDs of bookings holding a seat on the offering according to the local holds */
+export function listSeatHolds(offeringId: string, now = Date.now()): string[] {
+  return getHoldsDatabase()
+    .query<{ record_id: string }, [string, string]>(
+      'SELECT record_id FROM seat_holds WHERE offering_id = ? AND expires_at > ?'
+    )
+    .all(offeringId, new Date(now).toISOString())
+    .map((row) => row.record_id);
+}
@@ -0,0 +1,237 @@
+import { createHash } from 'node:crypto';
+import { config } from './config';
+import { getDatabase } from './db';
+import { errorResponse } from './responses';
+import { ERROR_CODES } from './types';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const MAX_KEY_LENGTH = 255;
+
+/** How long a key stays reserved while its first request is still running */
+const IN_PROGRESS_TIMEOUT_MS = 2 * 60 * 1000;
+
+export interface StoredResponse {
+  status: number;
+  body: string;
+  contentType: string | null;
+}
+
+export interface IdempotencyRecord {
+  fingerprint: string;
+  /** Null while the first request holding the key is still in flight */
+  response: StoredResponse | null;
+}
+
+export interface IdempotencyStore {
+  /** Claims `key` for a new request, or returns the record already holding it */
+  reserve(key: string, fingerprint: string, expiresAt: number): Promise<IdempotencyRecord | null>;
+  complete(key: string, response: StoredResponse, expiresAt: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+interface MemoryEntry extends IdempotencyRecord {
+  expiresAt: number;
+}
+
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const entries = new Map<string, MemoryEntry>();
+
+  return {
+    async reserve(key, fingerprint, expiresAt) {
+      const now = Date.now();
+      for (const [storedKey, entry] of entries) {
+        if (entry.expiresAt <= now) entries.delete(storedKey);
+      }
+
+      const existing = entries.get(key);
+      if (existing) return existing;
+
+      entries.set(key, { fingerprint, response: null, expiresAt });
+      return null;
+    },
+
+    async complete(key, response, expiresAt) {
+      const entry = entries.get(key);
+      if (entry) {
+        entry.response = response;
+        entry.expiresAt = expiresAt;
+      }
+    },
+
+    async release(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+interface IdempotencyRow {
+  fingerprint: string;
+  status: number | null;
+  body: string | null;
+  content_type: string | null;
+}
+
+export function createSqliteIdempotencyStore(): IdempotencyStore {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      key TEXT PRIMARY KEY,
+      fingerprint TEXT NOT NULL,
+      status INTEGER,
+      body TEXT,
+      content_type TEXT,
+      expires_at INTEGER NOT NULL
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idempotency_keys_expires_at ON idempotency_keys (expires_at)');
+
+  const deleteExpired = db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?');
+  const insert = db.prepare(
+    'INSERT OR IGNORE INTO idempotency_keys (key, fingerprint, expires_at) VALUES (?, ?, ?)'
+  );
+  const select = db.prepare<IdempotencyRow, [string]>(
+    'SELECT fingerprint, status, body, content_type FROM idempotency_keys WHERE key = ?'
+  );
+  const update = db.prepare(
+    'UPDATE idempotency_keys SET status = ?, body = ?, content_type = ?, expires_at = ? WHERE key = ?'
+  );
+  const remove = db.prepare('DELETE FROM idempotency_keys WHERE key = ?');
+
+  const reserve = db.transaction((key: string, fingerprint: string, expiresAt: number) => {
+    deleteExpired.run(Date.now());
+    if (insert.run(key, fingerprint, expiresAt).changes === 1) return null;
+
+    const row = select.get(key);
+    if (!row) return null;
+
+    return {
+      fingerprint: row.fingerprint,
+      response:
+        row.status === null
+          ? null
+          : { status: row.status, body: row.body ?? '', contentType: row.content_type },
+    };
+  });
+
+  return {
+    async reserve(key, fingerprint, expiresAt) {
+      return reserve(key, fingerprint, expiresAt);
+    },
+
+    async complete(key, response, expiresAt) {
+      update.run(response.status, response.body, response.contentType, expiresAt, key);
+    },
+
+    async release(key) {
+      remove.run(key);
+    },
+  };
+}
+
+function createIdempotencyStore(): IdempotencyStore {
+  switch (config.idempotency.store) {
+    case 'memory':
+      return createMemoryIdempotencyStore();
+    case 'sqlite':
+      return createSqliteIdempotencyStore();
+    default:
+      throw new Error(`Unknown IDEMPOTENCY_STORE: ${config.idempotency.store}`);
+  }
+}
+
+let store: IdempotencyStore | null = null;
+
+function getStore(): IdempotencyStore {
+  store ??= createIdempotencyStore();
+  return store;
+}
+
+/** Replaces the configured store, e.g. with a shared implementation */
+export function setIdempotencyStore(custom: IdempotencyStore): void {
+  store = custom;
+}
+
+function replay(stored: StoredResponse): Response {
+  const headers: Record<string, string> = { 'Idempotent-Replayed': 'true' };
+  if (stored.contentType) headers['Content-Type'] = stored.contentType;
+  return new Response(stored.body, { status: stored.status, headers });
+}
+
+/**
+ * Honours the `Idempotency-Key` header: the first request with a key runs
+ * `handler` and its response is stored, repeats with the same body get the
+ * stored response back, and repeats with a different body are rejected.
+ * Requests without the header are passed straight through.
+ */
+export async function withIdempotency(
+  request: Request,
+  handler: (request: Request, idempotencyKey: string | null) => Promise<Response>
+): Promise<Response> {
+  const idempotencyKey = request.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!idempotencyKey) return handler(request, null);
+
+  if (idempotencyKey.length > MAX_KEY_LENGTH) {
+    return errorResponse(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      400
+    );
+  }
+
+  const url = new URL(request.url);
+  const storeKey = `${request.method} ${url.pathname} ${idempotencyKey}`;
+  const body = await request.text();
+  const fingerprint = createHash('sha256').update(body).digest('hex');
+
+  const existing = await getStore().reserve(storeKey, fingerprint, Date.now() + IN_PROGRESS_TIMEOUT_MS);
+
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return errorResponse(
+        ERROR_CODES.IDEMPOTENCY_KEY_CONFLICT,
+        'Idempotency-Key was already used with a different request body',
+        422
+      );
+    }
+    if (!existing.response) {
+      return errorResponse(
+        ERROR_CODES.IDEMPOTENCY_KEY_IN_USE,
+        'A request with this Idempotency-Key is still being processed',
+        409
+      );
+    }
+    return replay(existing.response);
+  }
+
+  let response: Response;
+  try {
+    response = await handler(
+      new Request(request.url, { method: request.method, headers: request.headers, body }),
+      idempotencyKey
+    );
+  } catch (error) {
+    await getStore().release(storeKey);
+    throw error;
+  }
+
+  // Server errors are not stored so the client can retry with the same key
+  if (response.status >= 500) {
+    await getStore().release(storeKey);
+    return response;
+  }
+
+  const responseBody = await response.text();
+  const stored: StoredResponse = {
+    status: response.status,
+    body: responseBody,
+    contentType: response.headers.get('content-type'),
+  };
+  await getStore().complete(storeKey, stored, Date.now() + config.idempotency.ttlHours * 60 * 60 * 1000);
+
+  return new Response(responseBody, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
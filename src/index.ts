@@ -1,41 +1,46 @@
 import { config } from './config';
 import {
   handleHealth,
+  handleGetYearGroups,
   handleGetOfferings,
+  handleGetOfferingFacets,
+  handleGetPackages,
   handleCreateBooking,
+  handleGetBooking,
+  handleGetOrder,
+  handlePricingQuote,
+  handleJoinWaitlist,
+  handleGetWaitlistPosition,
   handleNotFound,
   handleMethodNotAllowed,
 } from './handlers';
 import {
   handleCreateCheckoutSession,
   handleStripeWebhook,
+  handleCancelBooking,
 } from './stripe-handlers';
-
-function addCorsHeaders(response: Response): Response {
-  const headers = new Headers(response.headers);
-  headers.set('Access-Control-Allow-Origin', '*');
-  headers.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  headers.set('Access-Control-Allow-Headers', 'Content-Type');
-  headers.set('Access-Control-Max-Age', '86400');
-
-  return new Response(response.body, {
-    status: response.status,
-    statusText: response.statusText,
-    headers,
-  });
-}
-
-function handleCorsPreflightRequest(): Response {
-  return new Response(null, {
-    status: 204,
-    headers: {
-      'Access-Control-Allow-Origin': '*',
-      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
-      'Access-Control-Max-Age': '86400',
-    },
-  });
-}
+import {
+  handleCreateOffering,
+  handleUpdateOffering,
+  handleDeleteOffering,
+  handleListStripeEvents,
+  handleReplayStripeEvent,
+  handleListOutbox,
+  handleRetryOutboxItem,
+  handleListPromoCodes,
+  handleCreatePromoCode,
+  handleDeactivatePromoCode,
+  handleListPackages,
+  handleCreatePackage,
+  handleDeactivatePackage,
+  handleInvalidateOfferingsCache,
+} from './admin-handlers';
+import { startHoldSweeper } from './hold-sweeper';
+import { startOutboxDispatcher } from './outbox';
+import { authorize } from './auth';
+import { API_SCOPES } from './types';
+import { withIdempotency } from './idempotency';
+import { addCorsHeaders, handleCorsPreflightRequest, isCorsExcluded } from './cors';
 
 async function router(request: Request): Promise<Response> {
   const url = new URL(request.url);
@@ -46,18 +51,162 @@ async function router(request: Request): Promise<Response> {
     return handleHealth();
   }
 
+  if (path === '/api/year-groups') {
+    if (method === 'GET') return handleGetYearGroups();
+    return handleMethodNotAllowed();
+  }
+
   if (path === '/api/offerings') {
     if (method === 'GET') return handleGetOfferings(request);
     return handleMethodNotAllowed();
   }
 
+  if (path === '/api/offerings/facets') {
+    if (method === 'GET') return handleGetOfferingFacets(request);
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/packages') {
+    if (method === 'GET') return handleGetPackages(request);
+    return handleMethodNotAllowed();
+  }
+
+  const waitlistMatch = path.match(/^\/api\/offerings\/([^/]+)\/waitlist(?:\/([^/]+))?$/);
+  if (waitlistMatch) {
+    const offeringId = decodeURIComponent(waitlistMatch[1]);
+    const waitlistId = waitlistMatch[2] && decodeURIComponent(waitlistMatch[2]);
+
+    if (waitlistId) {
+      if (method === 'GET') return handleGetWaitlistPosition(request, offeringId, waitlistId);
+      return handleMethodNotAllowed();
+    }
+
+    if (method === 'POST') return handleJoinWaitlist(request, offeringId);
+    return handleMethodNotAllowed();
+  }
+
   if (path === '/api/bookings') {
-    if (method === 'POST') return handleCreateBooking(request);
+    if (method === 'POST') return withIdempotency(request, handleCreateBooking);
+    return handleMethodNotAllowed();
+  }
+
+  const cancelMatch = path.match(/^\/api\/bookings\/([^/]+)\/cancel$/);
+  if (cancelMatch) {
+    const bookingId = decodeURIComponent(cancelMatch[1]);
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.REFUNDS_WRITE, () => handleCancelBooking(request, bookingId));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const orderMatch = path.match(/^\/api\/orders\/([^/]+)$/);
+  if (orderMatch) {
+    if (method === 'GET') return handleGetOrder(request, decodeURIComponent(orderMatch[1]));
+    return handleMethodNotAllowed();
+  }
+
+  const bookingMatch = path.match(/^\/api\/bookings\/([^/]+)$/);
+  if (bookingMatch) {
+    if (method === 'GET') return handleGetBooking(request, decodeURIComponent(bookingMatch[1]));
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/pricing/quote') {
+    if (method === 'POST') return handlePricingQuote(request);
     return handleMethodNotAllowed();
   }
 
   if (path === '/api/checkout/session') {
-    if (method === 'POST') return handleCreateCheckoutSession(request);
+    if (method === 'POST') return withIdempotency(request, handleCreateCheckoutSession);
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/admin/offerings') {
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.OFFERINGS_WRITE, () => handleCreateOffering(request));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const adminOfferingMatch = path.match(/^\/api\/admin\/offerings\/([^/]+)$/);
+  if (adminOfferingMatch) {
+    const offeringId = decodeURIComponent(adminOfferingMatch[1]);
+    if (method === 'PATCH') {
+      return authorize(request, API_SCOPES.OFFERINGS_WRITE, () => handleUpdateOffering(request, offeringId));
+    }
+    if (method === 'DELETE') {
+      return authorize(request, API_SCOPES.OFFERINGS_WRITE, () => handleDeleteOffering(request, offeringId));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/admin/promo-codes') {
+    if (method === 'GET') {
+      return authorize(request, API_SCOPES.PRICING_READ, () => handleListPromoCodes());
+    }
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.PRICING_WRITE, () => handleCreatePromoCode(request));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const promoCodeMatch = path.match(/^\/api\/admin\/promo-codes\/([^/]+)$/);
+  if (promoCodeMatch) {
+    const code = decodeURIComponent(promoCodeMatch[1]);
+    if (method === 'DELETE') {
+      return authorize(request, API_SCOPES.PRICING_WRITE, () => handleDeactivatePromoCode(code));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/admin/packages') {
+    if (method === 'GET') {
+      return authorize(request, API_SCOPES.PRICING_READ, () => handleListPackages());
+    }
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.PRICING_WRITE, () => handleCreatePackage(request));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const packageMatch = path.match(/^\/api\/admin\/packages\/([^/]+)$/);
+  if (packageMatch) {
+    const packageId = decodeURIComponent(packageMatch[1]);
+    if (method === 'DELETE') {
+      return authorize(request, API_SCOPES.PRICING_WRITE, () => handleDeactivatePackage(packageId));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/admin/stripe-events') {
+    if (method === 'GET') {
+      return authorize(request, API_SCOPES.EVENTS_READ, () => handleListStripeEvents(request));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const replayMatch = path.match(/^\/api\/admin\/stripe-events\/([^/]+)\/replay$/);
+  if (replayMatch) {
+    const eventId = decodeURIComponent(replayMatch[1]);
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.EVENTS_WRITE, () => handleReplayStripeEvent(eventId));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  if (path === '/api/admin/outbox') {
+    if (method === 'GET') {
+      return authorize(request, API_SCOPES.EVENTS_READ, () => handleListOutbox(request));
+    }
+    return handleMethodNotAllowed();
+  }
+
+  const outboxRetryMatch = path.match(/^\/api\/admin\/outbox\/([^/]+)\/retry$/);
+  if (outboxRetryMatch) {
+    const itemId = decodeURIComponent(outboxRetryMatch[1]);
+    if (method === 'POST') {
+      return authorize(request, API_SCOPES.EVENTS_WRITE, () => handleRetryOutboxItem(itemId));
+    }
     return handleMethodNotAllowed();
   }
 
@@ -66,6 +215,11 @@ async function router(request: Request): Promise<Response> {
     return handleMethodNotAllowed();
   }
 
+  if (path === '/api/webhooks/ghl/offerings') {
+    if (method === 'POST') return handleInvalidateOfferingsCache(request);
+    return handleMethodNotAllowed();
+  }
+
   return handleNotFound();
 }
 
@@ -84,14 +238,16 @@ const server = Bun.serve({
 
   async fetch(request: Request): Promise<Response> {
     const startTime = Date.now();
+    const corsEnabled = !isCorsExcluded(new URL(request.url).pathname);
+    const withCors = (response: Response) => (corsEnabled ? addCorsHeaders(request, response) : response);
 
-    if (request.method === 'OPTIONS') {
-      return handleCorsPreflightRequest();
+    if (request.method === 'OPTIONS' && corsEnabled) {
+      return handleCorsPreflightRequest(request);
     }
 
     try {
       const response = await router(request);
-      const responseWithCors = addCorsHeaders(response);
+      const responseWithCors = withCors(response);
       const durationMs = Date.now() - startTime;
       log(request, responseWithCors, durationMs);
       return responseWithCors;
@@ -110,7 +266,7 @@ const server = Bun.serve({
           headers: { 'Content-Type': 'application/json' },
         }
       );
-      const responseWithCors = addCorsHeaders(errorResponse);
+      const responseWithCors = withCors(errorResponse);
       const durationMs = Date.now() - startTime;
       log(request, responseWithCors, durationMs);
       return responseWithCors;
@@ -120,14 +276,21 @@ const server = Bun.serve({
 
 console.log(`Workshop Booking API running on http://localhost:${server.port}`);
 
+const stopHoldSweeper = startHoldSweeper();
+const stopOutboxDispatcher = startOutboxDispatcher();
+
 process.on('SIGINT', () => {
   console.log('\nShutting down...');
+  stopHoldSweeper();
+  stopOutboxDispatcher();
   server.stop();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.log('\nShutting down...');
+  stopHoldSweeper();
+  stopOutboxDispatcher();
   server.stop();
   process.exit(0);
 });
@@ -0,0 +1,150 @@
+import { randomUUID } from 'node:crypto';
+import { config } from './config';
+import { getDatabase } from './db';
+
+export class LockTimeoutError extends Error {
+  constructor(key: string) {
+    super(`Timed out waiting for lock: ${key}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+export interface LockProvider {
+  /** Resolves with a release function once `key` is held by the caller */
+  acquire(key: string): Promise<() => Promise<void>>;
+}
+
+/** Serialises callers per key within this process by chaining promises */
+export function createMemoryLockProvider(): LockProvider {
+  const tails = new Map<string, Promise<void>>();
+
+  return {
+    async acquire(key) {
+      const waitingOn = tails.get(key);
+      const previous = waitingOn ?? Promise.resolve();
+      let release!: () => void;
+      const current = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const tail = previous.then(() => current);
+      tails.set(key, tail);
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timedOut = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new LockTimeoutError(key)), config.locks.timeoutMs);
+      });
+
+      try {
+        await Promise.race([previous, timedOut]);
+      } catch (error) {
+        // Let later waiters through once the holder ahead of us is done
+        release();
+        // Nobody queued behind us, so hand the key back to the holder ahead
+        // instead of leaving our abandoned link on the chain
+        if (tails.get(key) === tail) {
+          if (waitingOn) tails.set(key, waitingOn);
+          else tails.delete(key);
+        }
+        throw error;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      return async () => {
+        release();
+        if (tails.get(key) === tail) tails.delete(key);
+      };
+    },
+  };
+}
+
+const SQLITE_POLL_MIN_MS = 25;
+const SQLITE_POLL_MAX_MS = 500;
+
+/**
+ * Shares locks between processes through a lease table. A lease expires
+ * after `LOCK_TTL_MS` so a crashed holder can't block a key forever.
+ */
+export function createSqliteLockProvider(): LockProvider {
+  const db = getDatabase();
+
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS locks (
+      key TEXT PRIMARY KEY,
+      owner TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )
+  `);
+
+  const deleteExpired = db.prepare('DELETE FROM locks WHERE key = ? AND expires_at <= ?');
+  const insert = db.prepare('INSERT OR IGNORE INTO locks (key, owner, expires_at) VALUES (?, ?, ?)');
+  const remove = db.prepare('DELETE FROM locks WHERE key = ? AND owner = ?');
+
+  const tryAcquire = db.transaction((key: string, owner: string, now: number) => {
+    deleteExpired.run(key, now);
+    return insert.run(key, owner, now + config.locks.ttlMs).changes === 1;
+  });
+
+  return {
+    async acquire(key) {
+      const owner = randomUUID();
+      const deadline = Date.now() + config.locks.timeoutMs;
+      let delay = SQLITE_POLL_MIN_MS;
+
+      while (!tryAcquire(key, owner, Date.now())) {
+        if (Date.now() >= deadline) throw new LockTimeoutError(key);
+        await Bun.sleep(delay + Math.random() * delay);
+        delay = Math.min(delay * 2, SQLITE_POLL_MAX_MS);
+      }
+
+      return async () => {
+        remove.run(key, owner);
+      };
+    },
+  };
+}
+
+function createLockProvider(): LockProvider {
+  switch (config.locks.store) {
+    case 'memory':
+      return createMemoryLockProvider();
+    case 'sqlite':
+      return createSqliteLockProvider();
+    default:
+      throw new Error(`Unknown LOCK_STORE: ${config.locks.store}`);
+  }
+}
+
+let provider: LockProvider | null = null;
+
+function getProvider(): LockProvider {
+  provider ??= createLockProvider();
+  return provider;
+}
+
+export function setLockProvider(custom: LockProvider): void {
+  provider = custom;
+}
+
+/**
+ * Runs `fn` while holding the lock for `key`. Locks are not re-entrant:
+ * `fn` must not take the same key again.
+ */
+export async function withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const release = await getProvider().acquire(key);
+  try {
+    return await fn();
+  } finally {
+    await release();
+  }
+}
+
+/**
+ * Runs `fn` while holding every lock in `keys`. Keys are taken in sorted
+ * order, so two callers locking overlapping sets can't deadlock.
+ */
+export async function withLocks<T>(keys: string[], fn: () => Promise<T>): Promise<T> {
+  const [first, ...rest] = [...new Set(keys)].sort();
+  if (first === undefined) return fn();
+  return withLock(first, () => withLocks(rest, fn));
+}
@@ -0,0 +1,151 @@
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { config } from './config';
+import { fetchOfferings, fetchOfferingById } from './ghl';
+import type { WorkshopOffering } from './types';
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+export interface SwrCache<T> {
+  get(key: string): Promise<T>;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+  clear(): void;
+}
+
+interface SwrCacheOptions<T> {
+  ttlSeconds: number;
+  staleSeconds: number;
+  onStore?: (value: T) => void;
+}
+
+/**
+ * Keyed cache that serves fresh entries for `ttlSeconds`, then serves stale
+ * entries for up to `staleSeconds` more while a background refresh runs.
+ * Concurrent misses for the same key share one load.
+ */
+export function createSwrCache<T>(
+  name: string,
+  load: (key: string) => Promise<T>,
+  options: SwrCacheOptions<T>
+): SwrCache<T> {
+  const { onStore } = options;
+  const entries = new Map<string, CacheEntry<T>>();
+  const inFlight = new Map<string, Promise<T>>();
+  // Bumped on every invalidation so a load that started before it is never stored
+  let generation = 0;
+
+  function refresh(key: string): Promise<T> {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+
+    const startedAt = generation;
+    const promise = load(key)
+      .then((value) => {
+        if (startedAt === generation) {
+          entries.set(key, { value, fetchedAt: Date.now() });
+          onStore?.(value);
+        }
+        return value;
+      })
+      .finally(() => inFlight.delete(key));
+
+    inFlight.set(key, promise);
+    return promise;
+  }
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+      const ttlMs = options.ttlSeconds * 1000;
+      const staleMs = options.staleSeconds * 1000;
+
+      if (entry && age < ttlMs) return entry.value;
+
+      if (entry && age < ttlMs + staleMs) {
+        refresh(key).catch((error) => console.error(`Cache: Failed to refresh ${name} ${key}:`, error));
+        return entry.value;
+      }
+
+      return refresh(key);
+    },
+
+    set(key, value) {
+      entries.set(key, { value, fetchedAt: Date.now() });
+    },
+
+    delete(key) {
+      generation++;
+      entries.delete(key);
+    },
+
+    clear() {
+      generation++;
+      entries.clear();
+    },
+  };
+}
+
+const offeringsById = createSwrCache<WorkshopOffering | null>('offering', fetchOfferingById, config.offeringsCache);
+
+// A fresh list also warms the by-ID cache the booking form hits next
+const offeringsByYearGroup = createSwrCache<WorkshopOffering[]>('year group', fetchOfferings, {
+  ...config.offeringsCache,
+  onStore: (offerings) => {
+    for (const offering of offerings) {
+      offeringsById.set(offering.id, offering);
+    }
+  },
+});
+
+/** Upcoming, non-inactive offerings for a year group, served from the cache */
+export function getCachedOfferings(yearGroup: string): Promise<WorkshopOffering[]> {
+  return offeringsByYearGroup.get(yearGroup);
+}
+
+/** Reads an offering through the cache; unknown IDs are cached as null too */
+export function getCachedOfferingById(offeringId: string): Promise<WorkshopOffering | null> {
+  return offeringsById.get(offeringId);
+}
+
+/**
+ * Drops cached data after an offering changes. Year-group lists are cleared
+ * wholesale because an edit can move an offering between them.
+ */
+export function invalidateOffering(offeringId: string): void {
+  offeringsById.delete(offeringId);
+  offeringsByYearGroup.clear();
+}
+
+export function invalidateYearGroup(yearGroup: string): void {
+  offeringsByYearGroup.delete(yearGroup);
+}
+
+export function invalidateAllOfferings(): void {
+  offeringsById.clear();
+  offeringsByYearGroup.clear();
+}
+
+/** Weak ETag for a serialized response body */
+export function createEtag(body: string): string {
+  return `W/"${createHash('sha256').update(body).digest('base64url').slice(0, 27)}"`;
+}
+
+export function getCacheControlHeader(): string {
+  const { ttlSeconds, staleSeconds } = config.offeringsCache;
+  return `public, max-age=${ttlSeconds}, stale-while-revalidate=${staleSeconds}`;
+}
+
+/** Checks a hex HMAC-SHA256 of the raw body against OFFERINGS_CACHE_WEBHOOK_SECRET */
+export function verifyInvalidationSignature(rawBody: string, signature: string): boolean {
+  const secret = config.offeringsCache.webhookSecret;
+  if (!secret) return false;
+
+  const expected = Buffer.from(createHmac('sha256', secret).update(rawBody).digest('hex'));
+  const actual = Buffer.from(signature.trim().toLowerCase());
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,271 @@
+import { config } from './config';
+import { getDatabase } from './db';
+import { triggerBookingWebhook, updateBooking } from './ghl';
+import { getWebhookSubject } from './booking-events';
+import type { GhlWebhookPayload, OutboxItem, OutboxStatus } from './types';
+import { BOOKING_WEBHOOK_EVENTS, OUTBOX_STATUS } from './types';
+
+/** How long a dispatcher owns a claimed item before another may pick it up */
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+interface OutboxRow {
+  id: number;
+  booking_id: string;
+  booking_record_id: string;
+  event: string;
+  payload: string;
+  status: OutboxStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+function toItem(row: OutboxRow): OutboxItem {
+  return {
+    id: row.id,
+    bookingId: row.booking_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.status === OUTBOX_STATUS.PENDING ? new Date(row.next_attempt_at).toISOString() : null,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    deliveredAt: row.delivered_at,
+  };
+}
+
+let initialised = false;
+
+function getOutboxDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS booking_webhook_outbox (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        dedupe_key TEXT NOT NULL UNIQUE,
+        booking_id TEXT NOT NULL,
+        booking_record_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_error TEXT,
+        created_at TEXT NOT NULL,
+        delivered_at TEXT
+      )
+    `);
+    db.exec(
+      'CREATE INDEX IF NOT EXISTS booking_webhook_outbox_due ON booking_webhook_outbox (status, next_attempt_at)'
+    );
+    initialised = true;
+  }
+
+  return db;
+}
+
+/**
+ * Exponential backoff with jitter: the nth retry waits between half and all
+ * of `base * 2^(n-1)`, capped, so a GHL outage isn't met by every item at once.
+ */
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(config.outbox.retryBaseMs * 2 ** (attempts - 1), config.outbox.retryMaxMs);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Durably queues a payload for `GHL_BOOKING_WEBHOOK_URL`. `dedupeKey`
+ * identifies the notification, so enqueueing it again (e.g. on a Stripe retry)
+ * is a no-op. Delivery happens in the background.
+ */
+export function enqueueBookingWebhook(
+  payload: GhlWebhookPayload,
+  bookingRecordId: string,
+  dedupeKey: string
+): void {
+  const result = getOutboxDatabase()
+    .query(
+      `INSERT OR IGNORE INTO booking_webhook_outbox
+         (dedupe_key, booking_id, booking_record_id, event, payload, status, next_attempt_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      dedupeKey,
+      'order' in payload ? payload.order.orderId : payload.booking.bookingId,
+      bookingRecordId,
+      payload.event,
+      JSON.stringify(payload),
+      OUTBOX_STATUS.PENDING,
+      Date.now(),
+      new Date().toISOString()
+    );
+
+  if (result.changes === 1) {
+    console.log(`Outbox: Queued ${payload.event} for ${getWebhookSubject(payload)}`);
+    // Deliver straight away rather than waiting for the next poll
+    dispatchSoon();
+  }
+}
+
+/** Claims due items; the lease stops another process delivering them at the same time */
+function claimDueItems(now: number): OutboxRow[] {
+  const db = getOutboxDatabase();
+
+  return db.transaction(() => {
+    const rows = db
+      .query<OutboxRow, [string, number, number]>(
+        `SELECT * FROM booking_webhook_outbox
+         WHERE status = ? AND next_attempt_at <= ?
+         ORDER BY next_attempt_at LIMIT ?`
+      )
+      .all(OUTBOX_STATUS.PENDING, now, BATCH_SIZE);
+
+    const claim = db.query('UPDATE booking_webhook_outbox SET next_attempt_at = ? WHERE id = ?');
+    for (const row of rows) {
+      claim.run(now + CLAIM_LEASE_MS, row.id);
+    }
+
+    return rows;
+  })();
+}
+
+async function deliver(row: OutboxRow): Promise<void> {
+  const db = getOutboxDatabase();
+  const payload = JSON.parse(row.payload) as GhlWebhookPayload;
+  const attempts = row.attempts + 1;
+
+  try {
+    await triggerBookingWebhook(payload);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const dead = attempts >= config.outbox.maxAttempts;
+
+    db.query(
+      'UPDATE booking_webhook_outbox SET status = ?, attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?'
+    ).run(
+      dead ? OUTBOX_STATUS.DEAD : OUTBOX_STATUS.PENDING,
+      attempts,
+      Date.now() + getRetryDelay(attempts),
+      message,
+      row.id
+    );
+
+    if (dead) {
+      console.error(`Outbox: ${row.event} for booking ${row.booking_id} dead-lettered after ${attempts} attempts:`, message);
+    } else {
+      console.warn(`Outbox: ${row.event} for booking ${row.booking_id} failed (attempt ${attempts}):`, message);
+    }
+    return;
+  }
+
+  db.query(
+    'UPDATE booking_webhook_outbox SET status = ?, attempts = ?, last_error = NULL, delivered_at = ? WHERE id = ?'
+  ).run(OUTBOX_STATUS.DELIVERED, attempts, new Date().toISOString(), row.id);
+
+  // The GHL workflow has run; failing to record that only leaves the flag stale
+  const recordIds =
+    'order' in payload
+      ? payload.order.bookings.map((booking) => booking.recordId)
+      : row.event === BOOKING_WEBHOOK_EVENTS.BOOKING_PAID
+        ? [row.booking_record_id]
+        : [];
+
+  for (const recordId of recordIds) {
+    try {
+      await updateBooking(recordId, { webhookTriggered: true });
+    } catch (error) {
+      console.error(`Outbox: Failed to mark webhook triggered for ${getWebhookSubject(payload)}:`, error);
+    }
+  }
+}
+
+let dispatching = false;
+
+function pruneDelivered(now: number): void {
+  const cutoff = new Date(now - config.outbox.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  getOutboxDatabase()
+    .query('DELETE FROM booking_webhook_outbox WHERE status = ? AND delivered_at < ?')
+    .run(OUTBOX_STATUS.DELIVERED, cutoff);
+}
+
+/** Delivers every item that is due. Returns the number of items attempted */
+export async function dispatchOutbox(now = Date.now()): Promise<number> {
+  if (dispatching) return 0;
+  dispatching = true;
+
+  try {
+    pruneDelivered(now);
+
+    let attempted = 0;
+    let batch: OutboxRow[];
+
+    do {
+      batch = claimDueItems(now);
+      for (const row of batch) {
+        await deliver(row);
+      }
+      attempted += batch.length;
+    } while (batch.length === BATCH_SIZE);
+
+    return attempted;
+  } finally {
+    dispatching = false;
+  }
+}
+
+function dispatchSoon(): void {
+  setTimeout(() => {
+    dispatchOutbox().catch((error) => console.error('Outbox dispatcher failed:', error));
+  }, 0);
+}
+
+/**
+ * Polls the outbox every `OUTBOX_POLL_INTERVAL_MS` so queued payloads are
+ * retried after failures and restarts. Returns a function that stops it.
+ */
+export function startOutboxDispatcher(): () => void {
+  const interval = setInterval(dispatchSoon, config.outbox.pollIntervalMs);
+
+  // Pick up anything left over from before a restart
+  dispatchSoon();
+
+  return () => clearInterval(interval);
+}
+
+export function listOutboxItems(filters: { status?: OutboxStatus; limit: number }): OutboxItem[] {
+  const db = getOutboxDatabase();
+  const rows = filters.status
+    ? db
+        .query<OutboxRow, [string, number]>(
+          'SELECT * FROM booking_webhook_outbox WHERE status = ? ORDER BY id DESC LIMIT ?'
+        )
+        .all(filters.status, filters.limit)
+    : db
+        .query<OutboxRow, [number]>('SELECT * FROM booking_webhook_outbox ORDER BY id DESC LIMIT ?')
+        .all(filters.limit);
+
+  return rows.map(toItem);
+}
+
+export function getOutboxItem(id: number): OutboxItem | null {
+  const row = getOutboxDatabase()
+    .query<OutboxRow, [number]>('SELECT * FROM booking_webhook_outbox WHERE id = ?')
+    .get(id);
+  return row ? toItem(row) : null;
+}
+
+/** Puts a dead-lettered item back in the queue for immediate delivery */
+export function retryOutboxItem(id: number): OutboxItem | null {
+  getOutboxDatabase()
+    .query(
+      'UPDATE booking_webhook_outbox SET status = ?, attempts = 0, next_attempt_at = ? WHERE id = ? AND status = ?'
+    )
+    .run(OUTBOX_STATUS.PENDING, Date.now(), id, OUTBOX_STATUS.DEAD);
+
+  dispatchSoon();
+  return getOutboxItem(id);
+}
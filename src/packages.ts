@@ -0,0 +1,109 @@
+import { getDatabase } from './db';
+import type { WorkshopPackage } from './types';
+
+interface PackageRow {
+  id: string;
+  name: string;
+  description: string;
+  year_group: string;
+  offering_ids: string;
+  price: number;
+  active: number;
+  created_at: string;
+}
+
+function toPackage(row: PackageRow): WorkshopPackage {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    yearGroup: row.year_group,
+    offeringIds: JSON.parse(row.offering_ids),
+    price: row.price,
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+let initialised = false;
+
+function getPackagesDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS packages (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        description TEXT NOT NULL DEFAULT '',
+        year_group TEXT NOT NULL,
+        offering_ids TEXT NOT NULL,
+        price REAL NOT NULL,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL
+      )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_packages_year_group ON packages (year_group, active)');
+    initialised = true;
+  }
+
+  return db;
+}
+
+function generatePackageId(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 8);
+  return `PKG-${timestamp}-${random}`.toUpperCase();
+}
+
+export function getPackage(id: string): WorkshopPackage | null {
+  const row = getPackagesDatabase()
+    .query<PackageRow, [string]>('SELECT * FROM packages WHERE id = ?')
+    .get(id);
+  return row ? toPackage(row) : null;
+}
+
+/** Every package, newest first; `yearGroup` narrows to that year group's active packages */
+export function listPackages(yearGroup?: string): WorkshopPackage[] {
+  const db = getPackagesDatabase();
+  const rows = yearGroup
+    ? db
+        .query<PackageRow, [string]>(
+          'SELECT * FROM packages WHERE year_group = ? AND active = 1 ORDER BY created_at DESC'
+        )
+        .all(yearGroup)
+    : db.query<PackageRow, []>('SELECT * FROM packages ORDER BY created_at DESC').all();
+  return rows.map(toPackage);
+}
+
+export function createPackage(input: {
+  name: string;
+  description: string;
+  yearGroup: string;
+  offeringIds: string[];
+  price: number;
+}): WorkshopPackage {
+  const id = generatePackageId();
+  getPackagesDatabase()
+    .query(
+      `INSERT INTO packages (id, name, description, year_group, offering_ids, price, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      id,
+      input.name,
+      input.description,
+      input.yearGroup,
+      JSON.stringify(input.offeringIds),
+      input.price,
+      new Date().toISOString()
+    );
+
+  return getPackage(id)!;
+}
+
+/** Packages are never deleted, so bookings made through one can still be traced to it */
+export function deactivatePackage(id: string): WorkshopPackage | null {
+  getPackagesDatabase().query('UPDATE packages SET active = 0 WHERE id = ?').run(id);
+  return getPackage(id);
+}
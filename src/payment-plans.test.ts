@@ -0,0 +1,116 @@
+import { describe, expect, test } from 'bun:test';
+import { PaymentPlanError, buildPaymentSchedule } from './payment-plans';
+import type { WorkshopOffering } from './types';
+import { ERROR_CODES, PAYMENT_PLAN } from './types';
+
+// Plans are paid off PAYMENT_PLAN_BALANCE_DAYS (14 by default) before the workshop
+const offering: WorkshopOffering = {
+  id: 'offering-1',
+  offering: 'GCSE Maths Intensive',
+  intake: 'Spring',
+  yearGroup: 'gcse',
+  subject: 'Maths',
+  workshopDate: '2099-06-01',
+  sessionTime: '10:00',
+  availability: 'available',
+  price: 100,
+  currency: 'gbp',
+  priceLabel: '£100.00',
+  zoomLink: 'https://zoom.us/j/1',
+  stripePriceId: '',
+  capacity: 30,
+  depositAmount: 20,
+  instalments: 3,
+};
+
+function planError(fn: () => unknown): PaymentPlanError {
+  try {
+    fn();
+  } catch (error) {
+    if (error instanceof PaymentPlanError) return error;
+    throw error;
+  }
+  throw new Error('Expected the plan to be refused');
+}
+
+describe('buildPaymentSchedule with instalments', () => {
+  test('puts the pennies left over on the first payment', () => {
+    expect(buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, offering, 100, '2099-01-10')).toEqual({
+      plan: PAYMENT_PLAN.INSTALMENTS,
+      payments: [
+        { amount: 33.34, dueDate: '2099-01-10' },
+        { amount: 33.33, dueDate: '2099-02-10' },
+        { amount: 33.33, dueDate: '2099-03-10' },
+      ],
+    });
+  });
+
+  test('splits zero-decimal currencies in whole units', () => {
+    const yen = { ...offering, price: 10000, currency: 'jpy' };
+
+    expect(
+      buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, yen, 10000, '2099-01-10').payments.map((p) => p.amount)
+    ).toEqual([3334, 3333, 3333]);
+  });
+
+  test('clamps a month-end start date to the end of shorter months', () => {
+    const dueDates = (today: string) =>
+      buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, offering, 100, today).payments.map((p) => p.dueDate);
+
+    expect(dueDates('2099-01-31')).toEqual(['2099-01-31', '2099-02-28', '2099-03-31']);
+    expect(dueDates('2096-01-31')).toEqual(['2096-01-31', '2096-02-29', '2096-03-31']);
+    expect(dueDates('2098-12-31')).toEqual(['2098-12-31', '2099-01-31', '2099-02-28']);
+  });
+
+  test('allows a last payment on the balance date but not after it', () => {
+    // The balance date is 2099-03-10
+    const workshop = { ...offering, workshopDate: '2099-03-24' };
+
+    expect(buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, workshop, 100, '2099-01-10').payments.at(-1)).toEqual({
+      amount: 33.33,
+      dueDate: '2099-03-10',
+    });
+    expect(planError(() => buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, workshop, 100, '2099-01-11')).code).toBe(
+      ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE
+    );
+  });
+
+  test('is refused for offerings without instalments', () => {
+    const error = planError(() =>
+      buildPaymentSchedule(PAYMENT_PLAN.INSTALMENTS, { ...offering, instalments: 0 }, 100, '2099-01-10')
+    );
+
+    expect(error.code).toBe(ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE);
+  });
+});
+
+describe('buildPaymentSchedule with a deposit', () => {
+  test('takes the deposit now and the balance on the balance date', () => {
+    expect(buildPaymentSchedule(PAYMENT_PLAN.DEPOSIT, offering, 90, '2099-01-10').payments).toEqual([
+      { amount: 20, dueDate: '2099-01-10' },
+      { amount: 70, dueDate: '2099-05-18' },
+    ]);
+  });
+
+  test('is refused once the balance date has been reached', () => {
+    expect(planError(() => buildPaymentSchedule(PAYMENT_PLAN.DEPOSIT, offering, 100, '2099-05-18')).code).toBe(
+      ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE
+    );
+    expect(buildPaymentSchedule(PAYMENT_PLAN.DEPOSIT, offering, 100, '2099-05-17').payments[1].dueDate).toBe(
+      '2099-05-18'
+    );
+  });
+
+  test('is refused when the deposit covers the whole price', () => {
+    expect(planError(() => buildPaymentSchedule(PAYMENT_PLAN.DEPOSIT, offering, 20, '2099-01-10')).code).toBe(
+      ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE
+    );
+  });
+});
+
+test('buildPaymentSchedule charges a full payment today', () => {
+  expect(buildPaymentSchedule(PAYMENT_PLAN.FULL, offering, 100, '2099-01-10')).toEqual({
+    plan: PAYMENT_PLAN.FULL,
+    payments: [{ amount: 100, dueDate: '2099-01-10' }],
+  });
+});
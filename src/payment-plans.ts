@@ -0,0 +1,226 @@
+import { config } from './config';
+import { fromMinorUnits, toMinorUnits } from './currency';
+import { getDatabase } from './db';
+import type { Booking, PaymentPlan, PaymentSchedule, WorkshopOffering } from './types';
+import { ERROR_CODES, PAYMENT_PLAN } from './types';
+
+export class PaymentPlanError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PaymentPlanError';
+  }
+}
+
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/** Same day of the month, clamped to the month's end like Stripe's billing dates */
+function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+export function isOnPaymentPlan(booking: Booking): boolean {
+  return booking.paymentPlan === PAYMENT_PLAN.DEPOSIT || booking.paymentPlan === PAYMENT_PLAN.INSTALMENTS;
+}
+
+/** The day a plan must be paid off by */
+export function getBalanceDueDate(workshopDate: string): string {
+  return addDays(workshopDate, -config.paymentPlans.balanceDaysBefore);
+}
+
+/**
+ * Works out what a booking priced at `price` pays when. Both plans must be
+ * paid off `PAYMENT_PLAN_BALANCE_DAYS` before the workshop, so they close once
+ * that no longer leaves room for them. Instalments that don't divide evenly
+ * put the odd pennies on the first payment.
+ */
+export function buildPaymentSchedule(
+  plan: PaymentPlan,
+  offering: WorkshopOffering,
+  price: number,
+  today: string
+): PaymentSchedule {
+  if (plan === PAYMENT_PLAN.FULL) {
+    return { plan, payments: [{ amount: price, dueDate: today }] };
+  }
+
+  const { currency } = offering;
+  const totalMinor = toMinorUnits(price, currency);
+  const { balanceDaysBefore } = config.paymentPlans;
+  const balanceDate = getBalanceDueDate(offering.workshopDate);
+
+  if (plan === PAYMENT_PLAN.DEPOSIT) {
+    const depositMinor = toMinorUnits(offering.depositAmount, currency);
+
+    if (!depositMinor) {
+      throw new PaymentPlanError(ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE, 'This workshop cannot be paid by deposit');
+    }
+
+    if (depositMinor >= totalMinor) {
+      throw new PaymentPlanError(
+        ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE,
+        'The deposit covers the whole price, so please pay in full'
+      );
+    }
+
+    if (balanceDate <= today) {
+      throw new PaymentPlanError(
+        ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE,
+        `Deposits close ${balanceDaysBefore} days before the workshop, so please pay in full`
+      );
+    }
+
+    return {
+      plan,
+      payments: [
+        { amount: fromMinorUnits(depositMinor, currency), dueDate: today },
+        { amount: fromMinorUnits(totalMinor - depositMinor, currency), dueDate: balanceDate },
+      ],
+    };
+  }
+
+  const count = offering.instalments;
+
+  if (count < 2) {
+    throw new PaymentPlanError(ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE, 'This workshop cannot be paid in instalments');
+  }
+
+  if (addMonths(today, count - 1) > balanceDate) {
+    throw new PaymentPlanError(
+      ERROR_CODES.PAYMENT_PLAN_UNAVAILABLE,
+      `There isn't time to pay in ${count} monthly instalments before the workshop, so please pay in full`
+    );
+  }
+
+  const instalmentMinor = Math.floor(totalMinor / count);
+  const remainderMinor = totalMinor - instalmentMinor * count;
+
+  return {
+    plan,
+    payments: Array.from({ length: count }, (_, index) => ({
+      amount: fromMinorUnits(instalmentMinor + (index === 0 ? remainderMinor : 0), currency),
+      dueDate: addMonths(today, index),
+    })),
+  };
+}
+
+/** One payment collected towards a payment plan */
+export interface PlanPayment {
+  /** The Stripe invoice, or the checkout session for a deposit */
+  reference: string;
+  bookingId: string;
+  paymentIntent: string | null;
+  amountMinor: number;
+  refundedMinor: number;
+  paidAt: string;
+}
+
+interface PlanPaymentRow {
+  reference: string;
+  booking_id: string;
+  payment_intent: string | null;
+  amount_minor: number;
+  refunded_minor: number;
+  paid_at: string;
+}
+
+function toPlanPayment(row: PlanPaymentRow): PlanPayment {
+  return {
+    reference: row.reference,
+    bookingId: row.booking_id,
+    paymentIntent: row.payment_intent,
+    amountMinor: row.amount_minor,
+    refundedMinor: row.refunded_minor,
+    paidAt: row.paid_at,
+  };
+}
+
+let initialised = false;
+
+function getPaymentPlansDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS payment_plan_payments (
+        reference TEXT PRIMARY KEY,
+        booking_id TEXT NOT NULL,
+        payment_intent TEXT,
+        amount_minor INTEGER NOT NULL,
+        refunded_minor INTEGER NOT NULL DEFAULT 0,
+        paid_at TEXT NOT NULL
+      )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_payment_plan_payments_booking ON payment_plan_payments (booking_id)');
+    db.exec(
+      'CREATE INDEX IF NOT EXISTS idx_payment_plan_payments_intent ON payment_plan_payments (payment_intent)'
+    );
+    initialised = true;
+  }
+
+  return db;
+}
+
+/**
+ * Records a payment once per reference, so the checkout and invoice webhooks
+ * for the same first payment, or a retried webhook, never count it twice.
+ */
+export function recordPlanPayment(payment: {
+  reference: string;
+  bookingId: string;
+  paymentIntent: string | null;
+  amountMinor: number;
+}): void {
+  getPaymentPlansDatabase()
+    .query(
+      `INSERT INTO payment_plan_payments (reference, booking_id, payment_intent, amount_minor, paid_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (reference) DO UPDATE SET
+         payment_intent = COALESCE(payment_plan_payments.payment_intent, excluded.payment_intent)`
+    )
+    .run(payment.reference, payment.bookingId, payment.paymentIntent, payment.amountMinor, new Date().toISOString());
+}
+
+/** Oldest first */
+export function listPlanPayments(bookingId: string): PlanPayment[] {
+  return getPaymentPlansDatabase()
+    .query<PlanPaymentRow, [string]>(
+      'SELECT * FROM payment_plan_payments WHERE booking_id = ? ORDER BY paid_at ASC, rowid ASC'
+    )
+    .all(bookingId)
+    .map(toPlanPayment);
+}
+
+export function findPlanPaymentByPaymentIntent(paymentIntent: string): PlanPayment | null {
+  const row = getPaymentPlansDatabase()
+    .query<PlanPaymentRow, [string]>('SELECT * FROM payment_plan_payments WHERE payment_intent = ?')
+    .get(paymentIntent);
+  return row ? toPlanPayment(row) : null;
+}
+
+/** Refund totals only grow, so a stale `charge.refunded` can't undo a later refund */
+export function recordPlanRefund(paymentIntent: string, refundedMinor: number): void {
+  getPaymentPlansDatabase()
+    .query('UPDATE payment_plan_payments SET refunded_minor = MAX(refunded_minor, ?) WHERE payment_intent = ?')
+    .run(refundedMinor, paymentIntent);
+}
+
+export function sumPlanPayments(
+  payments: PlanPayment[],
+  currency: string
+): { received: number; refunded: number } {
+  return {
+    received: fromMinorUnits(payments.reduce((sum, p) => sum + p.amountMinor, 0), currency),
+    refunded: fromMinorUnits(payments.reduce((sum, p) => sum + p.refundedMinor, 0), currency),
+  };
+}
@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import { priceBooking, pricePackage } from './pricing';
+import type { PromoCode, WorkshopOffering, WorkshopPackage } from './types';
+import { PRICING_RULE, PROMO_CODE_TYPE } from './types';
+
+// test-setup.ts turns on a 10% early-bird discount 28 days ahead and a 15% sibling discount
+const today = '2099-01-01';
+
+function makeOffering(overrides: Partial<WorkshopOffering> = {}): WorkshopOffering {
+  return {
+    id: 'offering-1',
+    offering: 'GCSE Maths Revision',
+    intake: 'Spring',
+    yearGroup: 'gcse',
+    subject: 'Maths',
+    workshopDate: '2099-03-01',
+    sessionTime: '10:00',
+    availability: 'available',
+    price: 45,
+    currency: 'gbp',
+    priceLabel: '£45.00',
+    zoomLink: 'https://zoom.us/j/1',
+    stripePriceId: '',
+    capacity: 30,
+    depositAmount: 0,
+    instalments: 0,
+    ...overrides,
+  };
+}
+
+function makePromo(type: PromoCode['type'], amount: number): PromoCode {
+  return {
+    code: 'SPRING',
+    type,
+    amount,
+    maxUses: null,
+    uses: 0,
+    reserved: 0,
+    expiresAt: null,
+    active: true,
+    createdAt: '2099-01-01T00:00:00.000Z',
+  };
+}
+
+describe('priceBooking', () => {
+  test('charges the full price when no discount applies', () => {
+    expect(priceBooking(makeOffering({ workshopDate: '2099-01-15' }), { today })).toEqual({
+      offeringPrice: 45,
+      pricePaid: 45,
+      discountAmount: 0,
+      pricingRule: null,
+      promoCode: null,
+    });
+  });
+
+  test('applies only the discount that takes the most off', () => {
+    const offering = makeOffering();
+
+    expect(priceBooking(offering, { today })).toMatchObject({ pricePaid: 40.5, pricingRule: PRICING_RULE.EARLY_BIRD });
+    expect(priceBooking(offering, { today, studentIndex: 1 })).toMatchObject({
+      pricePaid: 38.25,
+      discountAmount: 6.75,
+      pricingRule: PRICING_RULE.SIBLING,
+    });
+    expect(priceBooking(offering, { today, studentIndex: 1, promo: makePromo(PROMO_CODE_TYPE.PERCENT, 20) })).toMatchObject({
+      pricePaid: 36,
+      pricingRule: PRICING_RULE.PROMO_CODE,
+      promoCode: 'SPRING',
+    });
+    // A promo code worth less than the early-bird discount isn't used
+    expect(priceBooking(offering, { today, promo: makePromo(PROMO_CODE_TYPE.FIXED, 2) })).toMatchObject({
+      pricePaid: 40.5,
+      pricingRule: PRICING_RULE.EARLY_BIRD,
+      promoCode: null,
+    });
+  });
+
+  test('caps a discount at the price', () => {
+    expect(priceBooking(makeOffering(), { today, promo: makePromo(PROMO_CODE_TYPE.FIXED, 100) })).toMatchObject({
+      pricePaid: 0,
+      discountAmount: 45,
+      pricingRule: PRICING_RULE.PROMO_CODE,
+    });
+  });
+
+  test("rounds the discount to the offering's currency", () => {
+    expect(priceBooking(makeOffering({ price: 33.33 }), { today })).toMatchObject({
+      pricePaid: 30,
+      discountAmount: 3.33,
+    });
+    expect(priceBooking(makeOffering({ price: 6005, currency: 'jpy' }), { today })).toMatchObject({
+      pricePaid: 5404,
+      discountAmount: 601,
+    });
+  });
+});
+
+describe('pricePackage', () => {
+  const pkg: WorkshopPackage = {
+    id: 'PKG-1',
+    name: 'Spring intake',
+    description: '',
+    yearGroup: 'gcse',
+    offeringIds: ['offering-1', 'offering-2', 'offering-3'],
+    price: 20,
+    active: true,
+    createdAt: '2099-01-01T00:00:00.000Z',
+  };
+
+  test('splits the price by offering price and puts the rounding on the last share', () => {
+    const offerings = ['offering-1', 'offering-2', 'offering-3'].map((id) => makeOffering({ id, price: 10 }));
+    const shares = pricePackage(pkg, offerings);
+
+    expect(shares.map((share) => share.pricePaid)).toEqual([6.67, 6.67, 6.66]);
+    expect(shares.map((share) => share.discountAmount)).toEqual([3.33, 3.33, 3.34]);
+    expect(shares.every((share) => share.pricingRule === PRICING_RULE.PACKAGE)).toBe(true);
+  });
+
+  test('weights each share by its offering price', () => {
+    const offerings = [makeOffering({ price: 10 }), makeOffering({ id: 'offering-2', price: 30 })];
+
+    expect(pricePackage({ ...pkg, price: 30 }, offerings).map((share) => share.pricePaid)).toEqual([7.5, 22.5]);
+  });
+});
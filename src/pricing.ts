@@ -0,0 +1,109 @@
+import { config } from './config';
+import { roundMoney } from './currency';
+import { getPromoCode } from './promo-codes';
+import type { PricedBooking, PricingRule, PromoCode, WorkshopOffering, WorkshopPackage } from './types';
+import { ERROR_CODES, PRICING_RULE, PROMO_CODE_TYPE } from './types';
+
+export class PricingError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Looks up a promo code and checks it can still be used */
+export function resolvePromoCode(code: string, now = Date.now()): PromoCode {
+  const promo = getPromoCode(code);
+
+  if (!promo || !promo.active) {
+    throw new PricingError(ERROR_CODES.PROMO_CODE_INVALID, 'Promo code not recognised');
+  }
+
+  if (promo.expiresAt && Date.parse(promo.expiresAt) <= now) {
+    throw new PricingError(ERROR_CODES.PROMO_CODE_INVALID, 'Promo code has expired');
+  }
+
+  if (promo.maxUses !== null && promo.uses + promo.reserved >= promo.maxUses) {
+    throw new PricingError(ERROR_CODES.PROMO_CODE_INVALID, 'Promo code has been used up');
+  }
+
+  return promo;
+}
+
+/**
+ * Prices one student's place on an offering. Discounts don't stack: the
+ * booking gets whichever rule it qualifies for that takes the most off.
+ * `studentIndex` is the student's place in the request; every student after
+ * the first qualifies for the sibling discount.
+ */
+export function priceBooking(
+  offering: WorkshopOffering,
+  context: { today: string; studentIndex?: number; promo?: PromoCode | null }
+): PricedBooking {
+  const { price, currency } = offering;
+  const { earlyBirdDays, earlyBirdPercent, siblingPercent } = config.pricing;
+  const candidates: Array<{ rule: PricingRule; amount: number }> = [];
+
+  const daysAhead = Math.round((Date.parse(offering.workshopDate) - Date.parse(context.today)) / DAY_MS);
+  if (earlyBirdPercent > 0 && daysAhead >= earlyBirdDays) {
+    candidates.push({ rule: PRICING_RULE.EARLY_BIRD, amount: (price * earlyBirdPercent) / 100 });
+  }
+
+  if (siblingPercent > 0 && (context.studentIndex ?? 0) > 0) {
+    candidates.push({ rule: PRICING_RULE.SIBLING, amount: (price * siblingPercent) / 100 });
+  }
+
+  const { promo } = context;
+  if (promo) {
+    const amount = promo.type === PROMO_CODE_TYPE.PERCENT ? (price * promo.amount) / 100 : promo.amount;
+    candidates.push({ rule: PRICING_RULE.PROMO_CODE, amount });
+  }
+
+  let best: { rule: PricingRule; amount: number } | null = null;
+  for (const candidate of candidates) {
+    const amount = Math.min(price, roundMoney(candidate.amount, currency));
+    if (amount > 0 && (!best || amount > best.amount)) {
+      best = { rule: candidate.rule, amount };
+    }
+  }
+
+  return {
+    offeringPrice: price,
+    pricePaid: roundMoney(price - (best?.amount ?? 0), currency),
+    discountAmount: best?.amount ?? 0,
+    pricingRule: best?.rule ?? null,
+    promoCode: best?.rule === PRICING_RULE.PROMO_CODE ? promo!.code : null,
+  };
+}
+
+/**
+ * Splits a package's price across its offerings in proportion to their own
+ * prices, so each booking records what it paid and can be refunded on its
+ * own. The last offering takes the rounding, so the shares add up exactly.
+ * Other discounts don't apply on top of a package price.
+ */
+export function pricePackage(pkg: WorkshopPackage, offerings: WorkshopOffering[]): PricedBooking[] {
+  const offeringsTotal = offerings.reduce((sum, offering) => sum + offering.price, 0);
+  let allocated = 0;
+
+  return offerings.map((offering, index) => {
+    const share =
+      index === offerings.length - 1
+        ? roundMoney(pkg.price - allocated, offering.currency)
+        : roundMoney((pkg.price * offering.price) / offeringsTotal, offering.currency);
+    allocated = roundMoney(allocated + share, offering.currency);
+
+    return {
+      offeringPrice: offering.price,
+      pricePaid: share,
+      discountAmount: roundMoney(offering.price - share, offering.currency),
+      pricingRule: PRICING_RULE.PACKAGE,
+      promoCode: null,
+    };
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test';
+import { join } from 'node:path';
+import {
+  createPromoCode,
+  getPromoCode,
+  redeemPromoCode,
+  releasePromoCodeReservations,
+  reservePromoCode,
+} from './promo-codes';
+import { PROMO_CODE_TYPE } from './types';
+
+const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+/** Reserves the code from a separate process, as another server instance sharing DATABASE_PATH would */
+async function reserveInChildProcess(code: string, reference: string): Promise<boolean> {
+  const modulePath = join(import.meta.dir, 'promo-codes.ts');
+  const child = Bun.spawn(
+    [
+      process.execPath,
+      '-e',
+      `const { reservePromoCode } = await import(${JSON.stringify(modulePath)});
+       console.log(reservePromoCode(${JSON.stringify(code)}, ${JSON.stringify(reference)}, ${JSON.stringify(inAnHour())}));`,
+    ],
+    { env: process.env, stdout: 'pipe', stderr: 'inherit' }
+  );
+  const output = await new Response(child.stdout).text();
+
+  expect(await child.exited).toBe(0);
+  return output.trim() === 'true';
+}
+
+describe('reservePromoCode', () => {
+  test('holds the last use for one reference until it is released', () => {
+    createPromoCode({ code: 'last-one', type: PROMO_CODE_TYPE.PERCENT, amount: 10, maxUses: 1 });
+
+    expect(reservePromoCode('LAST-ONE', 'BK-1', inAnHour())).toBe(true);
+    expect(reservePromoCode('last-one', 'BK-2', inAnHour())).toBe(false);
+    // The holder can renew its own reservation
+    expect(reservePromoCode('last-one', 'BK-1', inAnHour())).toBe(true);
+    expect(getPromoCode('last-one')).toMatchObject({ uses: 0, reserved: 1 });
+
+    releasePromoCodeReservations('BK-1');
+    expect(reservePromoCode('last-one', 'BK-2', inAnHour())).toBe(true);
+  });
+
+  test('frees a use once its reservation lapses', () => {
+    createPromoCode({ code: 'lapsed', type: PROMO_CODE_TYPE.FIXED, amount: 5, maxUses: 1 });
+
+    expect(reservePromoCode('lapsed', 'BK-1', new Date(Date.now() - 1000).toISOString())).toBe(true);
+    expect(reservePromoCode('lapsed', 'BK-2', inAnHour())).toBe(true);
+  });
+
+  test('counts a redeemed use against the limit', () => {
+    createPromoCode({ code: 'redeemed', type: PROMO_CODE_TYPE.FIXED, amount: 5, maxUses: 1 });
+
+    expect(reservePromoCode('redeemed', 'ORD-1', inAnHour())).toBe(true);
+    redeemPromoCode('redeemed', 'ORD-1');
+    redeemPromoCode('redeemed', 'ORD-1');
+
+    expect(getPromoCode('redeemed')).toMatchObject({ uses: 1, reserved: 0 });
+    expect(reservePromoCode('redeemed', 'ORD-2', inAnHour())).toBe(false);
+  });
+
+  test('gives the last use to one of several processes reserving at once', async () => {
+    createPromoCode({ code: 'contested', type: PROMO_CODE_TYPE.PERCENT, amount: 10, maxUses: 1 });
+
+    const results = await Promise.all(
+      ['BK-1', 'BK-2', 'BK-3', 'BK-4'].map((reference) => reserveInChildProcess('contested', reference))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(getPromoCode('contested')).toMatchObject({ uses: 0, reserved: 1 });
+  });
+
+  test('rejects unknown codes', () => {
+    expect(reservePromoCode('missing', 'BK-1', inAnHour())).toBe(false);
+  });
+});
@@ -0,0 +1,195 @@
+import { getDatabase } from './db';
+import type { Booking, PromoCode, PromoCodeType } from './types';
+
+interface PromoCodeRow {
+  code: string;
+  type: PromoCodeType;
+  amount: number;
+  max_uses: number | null;
+  uses: number;
+  reserved: number;
+  expires_at: string | null;
+  active: number;
+  created_at: string;
+}
+
+function toPromoCode(row: PromoCodeRow): PromoCode {
+  return {
+    code: row.code,
+    type: row.type,
+    amount: row.amount,
+    maxUses: row.max_uses,
+    uses: row.uses,
+    reserved: row.reserved,
+    expiresAt: row.expires_at,
+    active: row.active === 1,
+    createdAt: row.created_at,
+  };
+}
+
+// Uses are counted from redemptions, so a Stripe retry can't count one twice.
+// Reservations only count until the seat hold they were made with lapses.
+const SELECT_PROMO_CODES = `
+  SELECT p.code, p.type, p.amount, p.max_uses, p.expires_at, p.active, p.created_at,
+    (SELECT COUNT(*) FROM promo_code_redemptions r WHERE r.code = p.code) AS uses,
+    (SELECT COUNT(*) FROM promo_code_reservations v WHERE v.code = p.code AND v.expires_at > $now) AS reserved
+  FROM promo_codes p`;
+
+let initialised = false;
+
+function getPromoCodesDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS promo_codes (
+        code TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        amount REAL NOT NULL,
+        max_uses INTEGER,
+        expires_at TEXT,
+        active INTEGER NOT NULL DEFAULT 1,
+        created_at TEXT NOT NULL
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+        code TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        redeemed_at TEXT NOT NULL,
+        PRIMARY KEY (code, reference)
+      )
+    `);
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS promo_code_reservations (
+        code TEXT NOT NULL,
+        reference TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        PRIMARY KEY (code, reference)
+      )
+    `);
+    initialised = true;
+  }
+
+  return db;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+export function getPromoCode(code: string): PromoCode | null {
+  const row = getPromoCodesDatabase()
+    .query<PromoCodeRow, { $now: string; $code: string }>(`${SELECT_PROMO_CODES} WHERE p.code = $code`)
+    .get({ $now: new Date().toISOString(), $code: normalizePromoCode(code) });
+  return row ? toPromoCode(row) : null;
+}
+
+export function listPromoCodes(): PromoCode[] {
+  return getPromoCodesDatabase()
+    .query<PromoCodeRow, { $now: string }>(`${SELECT_PROMO_CODES} ORDER BY p.created_at DESC`)
+    .all({ $now: new Date().toISOString() })
+    .map(toPromoCode);
+}
+
+/** Returns null if the code already exists */
+export function createPromoCode(input: {
+  code: string;
+  type: PromoCodeType;
+  amount: number;
+  maxUses?: number;
+  expiresAt?: string;
+}): PromoCode | null {
+  const code = normalizePromoCode(input.code);
+  const result = getPromoCodesDatabase()
+    .query(
+      `INSERT INTO promo_codes (code, type, amount, max_uses, expires_at, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (code) DO NOTHING`
+    )
+    .run(code, input.type, input.amount, input.maxUses ?? null, input.expiresAt ?? null, new Date().toISOString());
+
+  return result.changes > 0 ? getPromoCode(code) : null;
+}
+
+/** Codes are never deleted, so bookings that used one can still be traced to it */
+export function deactivatePromoCode(code: string): PromoCode | null {
+  getPromoCodesDatabase().query('UPDATE promo_codes SET active = 0 WHERE code = ?').run(normalizePromoCode(code));
+  return getPromoCode(code);
+}
+
+/** An order uses a code once however many of its bookings it discounts */
+export function getPromoCodeReference(booking: Pick<Booking, 'orderId' | 'bookingId'>): string {
+  return booking.orderId || booking.bookingId;
+}
+
+/**
+ * Holds one use of the code for a booking or order until its seat hold
+ * lapses at `expiresAt`. The count and the write happen in one transaction,
+ * so concurrent bookings can't both take a code's last use. Returns false
+ * when the code has no uses left; repeat calls for the same reference only
+ * move its expiry.
+ */
+export function reservePromoCode(code: string, reference: string, expiresAt: string): boolean {
+  const db = getPromoCodesDatabase();
+  const normalized = normalizePromoCode(code);
+
+  const reserve = db.transaction(() => {
+    const now = new Date().toISOString();
+    const promo = db
+      .query<PromoCodeRow, { $now: string; $code: string }>(`${SELECT_PROMO_CODES} WHERE p.code = $code`)
+      .get({ $now: now, $code: normalized });
+
+    if (!promo) return false;
+
+    const held = db
+      .query<{ count: number }, [string, string, string]>(
+        'SELECT COUNT(*) AS count FROM promo_code_reservations WHERE code = ? AND reference = ? AND expires_at > ?'
+      )
+      .get(normalized, reference, now)!.count;
+
+    if (!held && promo.max_uses !== null && promo.uses + promo.reserved >= promo.max_uses) {
+      return false;
+    }
+
+    db.query(
+      `INSERT INTO promo_code_reservations (code, reference, expires_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (code, reference) DO UPDATE SET expires_at = MAX(expires_at, excluded.expires_at)`
+    ).run(normalized, reference, expiresAt);
+    return true;
+  });
+
+  // IMMEDIATE takes the write lock up front, so another process can't count in between
+  return reserve.immediate();
+}
+
+/** Keeps a reference's reservations alive while a checkout extends its seat hold */
+export function extendPromoCodeReservations(reference: string, expiresAt: string): void {
+  getPromoCodesDatabase()
+    .query('UPDATE promo_code_reservations SET expires_at = MAX(expires_at, ?) WHERE reference = ?')
+    .run(expiresAt, reference);
+}
+
+/** Gives back the uses a booking or order was holding once its hold lapses or it is cancelled unpaid */
+export function releasePromoCodeReservations(reference: string): void {
+  getPromoCodesDatabase().query('DELETE FROM promo_code_reservations WHERE reference = ?').run(reference);
+}
+
+/**
+ * Counts one use of the code for a paid order or booking, turning its
+ * reservation into a redemption; repeat calls for the same reference are no-ops
+ */
+export function redeemPromoCode(code: string, reference: string): void {
+  const db = getPromoCodesDatabase();
+  const normalized = normalizePromoCode(code);
+
+  db.transaction(() => {
+    db.query(
+      `INSERT INTO promo_code_redemptions (code, reference, redeemed_at)
+       VALUES (?, ?, ?)
+       ON CONFLICT (code, reference) DO NOTHING`
+    ).run(normalized, reference, new Date().toISOString());
+    db.query('DELETE FROM promo_code_reservations WHERE code = ? AND reference = ?').run(normalized, reference);
+  })();
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { UpstreamResponseError, createCircuitBreaker, withRetry } from './resilience';
+import { CIRCUIT_STATE } from './types';
+
+const retryOptions = { maxRetries: 2, idempotent: true, label: 'test' };
+
+/** Counts calls to a function that always throws `error` */
+function failingWith(error: unknown) {
+  const fn = async () => {
+    fn.calls++;
+    throw error;
+  };
+  fn.calls = 0;
+  return fn;
+}
+
+function networkError(): Error {
+  const error = new Error('Network error: No response received from server');
+  error.name = 'GHLError';
+  return error;
+}
+
+describe('withRetry', () => {
+  test('rethrows an error from our own code without retrying', async () => {
+    const fn = failingWith(new TypeError("Cannot read properties of undefined (reading 'id')"));
+
+    await expect(withRetry(fn, retryOptions)).rejects.toThrow(TypeError);
+    expect(fn.calls).toBe(1);
+  });
+
+  test('retries 5xx responses and network errors', async () => {
+    for (const error of [new UpstreamResponseError('GHL responded with 503', 503, 0), networkError()]) {
+      const fn = failingWith(error);
+
+      await expect(withRetry(fn, retryOptions)).rejects.toBe(error);
+      expect(fn.calls).toBe(3);
+    }
+  });
+
+  test('rethrows a 4xx response without retrying', async () => {
+    const fn = failingWith(Object.assign(new Error('Not found'), { statusCode: 404 }));
+
+    await expect(withRetry(fn, retryOptions)).rejects.toThrow('Not found');
+    expect(fn.calls).toBe(1);
+  });
+});
+
+describe('createCircuitBreaker', () => {
+  test('opens on network errors but not on errors from our own code', async () => {
+    const breaker = createCircuitBreaker('test', { failureThreshold: 2, cooldownMs: 60_000 });
+
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(failingWith(new TypeError('bug')))).rejects.toThrow(TypeError);
+    }
+    expect(breaker.getStatus().state).toBe(CIRCUIT_STATE.CLOSED);
+
+    for (let i = 0; i < 2; i++) {
+      await expect(breaker.execute(failingWith(networkError()))).rejects.toThrow('Network error');
+    }
+    expect(breaker.getStatus().state).toBe(CIRCUIT_STATE.OPEN);
+  });
+});
@@ -0,0 +1,179 @@
+import type { CircuitBreakerStatus } from './types';
+import { CIRCUIT_STATE } from './types';
+
+/** Longest Retry-After we'll wait out; anything longer fails instead of hanging the request */
+const MAX_RETRY_AFTER_MS = 10_000;
+const RETRY_BASE_DELAY_MS = 200;
+
+/** Thrown without calling upstream while its circuit breaker is open */
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    public service: string,
+    public retryAfterMs: number
+  ) {
+    super(`${service} is temporarily unavailable`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/** An upstream error response that carries a Retry-After hint */
+export class UpstreamResponseError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public retryAfterMs: number | null
+  ) {
+    super(message);
+    this.name = 'UpstreamResponseError';
+  }
+}
+
+export function parseRetryAfter(header: string | null | undefined, now = Date.now()): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - now);
+}
+
+function getStatusCode(error: any): number | undefined {
+  return error?.statusCode ?? error?.status;
+}
+
+/** Codes Node and axios give a request that timed out or lost its connection */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'EPIPE',
+  'ETIMEDOUT',
+  'ERR_NETWORK',
+]);
+
+/** The GHL SDK drops the axios error code and reports any request that got no response this way */
+const GHL_NETWORK_ERROR_PREFIX = 'Network error';
+
+function isNetworkError(error: any): boolean {
+  return (
+    NETWORK_ERROR_CODES.has(error?.code) ||
+    (error?.name === 'GHLError' && String(error.message).startsWith(GHL_NETWORK_ERROR_PREFIX))
+  );
+}
+
+/**
+ * 429s, 5xx responses, timeouts and network errors suggest upstream trouble.
+ * Anything else without a status, such as a TypeError in our own code, does
+ * not, so it is neither retried nor counted by the circuit breaker.
+ */
+function isUpstreamFailure(error: unknown): boolean {
+  if (error instanceof UpstreamUnavailableError) return false;
+  const status = getStatusCode(error);
+  if (status === undefined) return isNetworkError(error);
+  return status === 429 || status >= 500;
+}
+
+export interface CircuitBreaker {
+  execute<T>(fn: () => Promise<T>): Promise<T>;
+  getStatus(): CircuitBreakerStatus;
+}
+
+/**
+ * Opens after `failureThreshold` consecutive upstream failures and rejects
+ * calls for `cooldownMs`. After that a single trial call is let through:
+ * success closes the breaker, failure opens it again.
+ */
+export function createCircuitBreaker(
+  service: string,
+  options: { failureThreshold: number; cooldownMs: number }
+): CircuitBreaker {
+  let state: CircuitBreakerStatus['state'] = CIRCUIT_STATE.CLOSED;
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const open = () => {
+    state = CIRCUIT_STATE.OPEN;
+    openedAt = Date.now();
+    console.error(`Circuit breaker: ${service} opened after ${consecutiveFailures} consecutive failures`);
+  };
+
+  return {
+    async execute(fn) {
+      if (state === CIRCUIT_STATE.OPEN) {
+        const remaining = openedAt + options.cooldownMs - Date.now();
+        if (remaining > 0) throw new UpstreamUnavailableError(service, remaining);
+        state = CIRCUIT_STATE.HALF_OPEN;
+      }
+
+      const isTrial = state === CIRCUIT_STATE.HALF_OPEN;
+      if (isTrial) {
+        if (trialInFlight) throw new UpstreamUnavailableError(service, options.cooldownMs);
+        trialInFlight = true;
+      }
+
+      try {
+        const result = await fn();
+        if (state !== CIRCUIT_STATE.CLOSED) {
+          console.log(`Circuit breaker: ${service} closed`);
+        }
+        state = CIRCUIT_STATE.CLOSED;
+        consecutiveFailures = 0;
+        return result;
+      } catch (error) {
+        if (isUpstreamFailure(error)) {
+          consecutiveFailures++;
+          if (isTrial || consecutiveFailures >= options.failureThreshold) open();
+        } else if (isTrial && getStatusCode(error) !== undefined) {
+          // A 4xx still proves upstream is answering
+          state = CIRCUIT_STATE.CLOSED;
+          consecutiveFailures = 0;
+        }
+        throw error;
+      } finally {
+        if (isTrial) trialInFlight = false;
+      }
+    },
+
+    getStatus() {
+      return {
+        state,
+        consecutiveFailures,
+        openedAt: state === CIRCUIT_STATE.CLOSED ? null : new Date(openedAt).toISOString(),
+      };
+    },
+  };
+}
+
+/**
+ * Retries `fn` up to `maxRetries` times on 429s and, when `idempotent`, on
+ * 5xx responses, timeouts and network errors. Waits for Retry-After when the
+ * upstream sends one, otherwise backs off exponentially with jitter.
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: { maxRetries: number; idempotent: boolean; label: string }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error: any) {
+      const status = getStatusCode(error);
+      // A 429 was rejected before being processed, so even writes can be retried
+      const retryable = status === 429 || (options.idempotent && isUpstreamFailure(error));
+      const retryAfterMs: number | null = error?.retryAfterMs ?? null;
+
+      if (!retryable || attempt >= options.maxRetries || (retryAfterMs ?? 0) > MAX_RETRY_AFTER_MS) {
+        throw error;
+      }
+
+      const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+      const delay = retryAfterMs ?? backoff / 2 + Math.random() * (backoff / 2);
+      console.warn(`${options.label} failed (${status ?? error?.message}), retrying in ${Math.round(delay)}ms`);
+      await Bun.sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import type { ZodError } from 'zod';
+import type { ApiResponse } from './types';
+
+export function successResponse<T>(data: T, status = 200): Response {
+  const body: ApiResponse<T> = { success: true, data };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function errorResponse(
+  code: string,
+  message: string,
+  status = 400,
+  headers: Record<string, string> = {}
+): Response {
+  const body: ApiResponse<never> = {
+    success: false,
+    error: { code, message },
+  };
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+export function formatZodError(error: ZodError): string {
+  return error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
+}
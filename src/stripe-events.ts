@@ -0,0 +1,122 @@
+import type Stripe from 'stripe';
+import { config } from './config';
+import { getDatabase } from './db';
+import type { StripeEventLogEntry, StripeEventStatus } from './types';
+import { STRIPE_EVENT_STATUS } from './types';
+
+interface StripeEventRow {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  attempts: number;
+  error: string | null;
+  received_at: string;
+  processed_at: string | null;
+}
+
+function toEntry(row: StripeEventRow): StripeEventLogEntry {
+  return {
+    id: row.id,
+    type: row.type,
+    status: row.status,
+    attempts: row.attempts,
+    error: row.error,
+    receivedAt: row.received_at,
+    processedAt: row.processed_at,
+  };
+}
+
+const SUMMARY_COLUMNS = 'id, type, status, attempts, error, received_at, processed_at';
+
+let initialised = false;
+
+function getEventsDatabase() {
+  const db = getDatabase();
+
+  if (!initialised) {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS stripe_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        payload TEXT NOT NULL,
+        received_at TEXT NOT NULL,
+        processed_at TEXT
+      )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS stripe_events_received_at ON stripe_events (received_at)');
+    initialised = true;
+  }
+
+  return db;
+}
+
+export function getStripeEvent(id: string): StripeEventLogEntry | null {
+  const row = getEventsDatabase()
+    .query<StripeEventRow, [string]>(`SELECT ${SUMMARY_COLUMNS} FROM stripe_events WHERE id = ?`)
+    .get(id);
+  return row ? toEntry(row) : null;
+}
+
+/** The event exactly as Stripe delivered it, for replays */
+export function getStoredStripeEvent(id: string): Stripe.Event | null {
+  const row = getEventsDatabase()
+    .query<{ payload: string }, [string]>('SELECT payload FROM stripe_events WHERE id = ?')
+    .get(id);
+  return row ? (JSON.parse(row.payload) as Stripe.Event) : null;
+}
+
+/** Records a delivery attempt, storing the event the first time it is seen */
+export function startStripeEvent(event: Stripe.Event): void {
+  const db = getEventsDatabase();
+  const now = new Date();
+  const retentionCutoff = new Date(now.getTime() - config.stripeEvents.retentionDays * 24 * 60 * 60 * 1000);
+
+  db.query('DELETE FROM stripe_events WHERE received_at < ?').run(retentionCutoff.toISOString());
+  db.query(
+    `INSERT INTO stripe_events (id, type, status, attempts, payload, received_at)
+     VALUES (?, ?, ?, 1, ?, ?)
+     ON CONFLICT (id) DO UPDATE SET status = excluded.status, attempts = attempts + 1, error = NULL`
+  ).run(event.id, event.type, STRIPE_EVENT_STATUS.PROCESSING, JSON.stringify(event), now.toISOString());
+}
+
+export function finishStripeEvent(
+  id: string,
+  status: StripeEventStatus,
+  error: string | null = null
+): StripeEventLogEntry | null {
+  getEventsDatabase()
+    .query('UPDATE stripe_events SET status = ?, error = ?, processed_at = ? WHERE id = ?')
+    .run(status, error, new Date().toISOString(), id);
+  return getStripeEvent(id);
+}
+
+export function listStripeEvents(filters: {
+  status?: StripeEventStatus;
+  type?: string;
+  limit: number;
+}): StripeEventLogEntry[] {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+
+  if (filters.status) {
+    conditions.push('status = ?');
+    params.push(filters.status);
+  }
+  if (filters.type) {
+    conditions.push('type = ?');
+    params.push(filters.type);
+  }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  params.push(filters.limit);
+
+  return getEventsDatabase()
+    .query<StripeEventRow, (string | number)[]>(
+      `SELECT ${SUMMARY_COLUMNS} FROM stripe_events ${where} ORDER BY received_at DESC LIMIT ?`
+    )
+    .all(...params)
+    .map(toEntry);
+}
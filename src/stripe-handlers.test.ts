@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'bun:test';
+import type Stripe from 'stripe';
+import { describePaymentMismatch } from './stripe-handlers';
+import type { Booking } from './types';
+
+function makeBooking(pricePaid: number, currency: string): Booking {
+  return { bookingId: 'BK-1', pricePaid, currency } as Booking;
+}
+
+function makeSession(amountTotal: number, currency: string): Stripe.Checkout.Session {
+  return { id: 'cs_test_1', amount_total: amountTotal, currency } as Stripe.Checkout.Session;
+}
+
+describe('describePaymentMismatch', () => {
+  test('accepts a charge that matches the bookings in their minor units', () => {
+    const siblings = [makeBooking(38.25, 'gbp'), makeBooking(38.25, 'GBP')];
+
+    expect(describePaymentMismatch(makeSession(7650, 'gbp'), siblings, { checkAmount: true })).toBe('');
+    expect(describePaymentMismatch(makeSession(6000, 'jpy'), [makeBooking(6000, 'jpy')], { checkAmount: true })).toBe(
+      ''
+    );
+    expect(
+      describePaymentMismatch(makeSession(12350, 'kwd'), [makeBooking(12.35, 'kwd')], { checkAmount: true })
+    ).toBe('');
+  });
+
+  test('describes a different amount in the booking’s currency', () => {
+    expect(describePaymentMismatch(makeSession(4000, 'gbp'), [makeBooking(45, 'gbp')], { checkAmount: true })).toBe(
+      'Stripe charged £40.00 (session cs_test_1); expected £45.00'
+    );
+    expect(describePaymentMismatch(makeSession(600, 'jpy'), [makeBooking(6000, 'jpy')], { checkAmount: true })).toBe(
+      'Stripe charged JP¥600 (session cs_test_1); expected JP¥6,000'
+    );
+    expect(
+      describePaymentMismatch(makeSession(1235, 'kwd'), [makeBooking(12.35, 'kwd')], { checkAmount: true }).replace(
+        /\s/g,
+        ' '
+      )
+    ).toBe('Stripe charged KWD 1.235 (session cs_test_1); expected KWD 12.350');
+  });
+
+  test('describes a charge in another currency by its own minor unit', () => {
+    expect(describePaymentMismatch(makeSession(4500, 'jpy'), [makeBooking(45, 'gbp')], { checkAmount: true })).toBe(
+      'Stripe charged JP¥4,500 (session cs_test_1); expected £45.00'
+    );
+  });
+
+  test('only checks the currency of a payment plan’s first payment', () => {
+    const booking = makeBooking(6000, 'jpy');
+
+    expect(describePaymentMismatch(makeSession(2000, 'jpy'), [booking], { checkAmount: false })).toBe('');
+    expect(describePaymentMismatch(makeSession(2000, 'gbp'), [booking], { checkAmount: false })).toBe(
+      'Stripe charged £20.00 (session cs_test_1); expected JPY'
+    );
+  });
+});
@@ -1,9 +1,67 @@
+import type Stripe from 'stripe';
 import { stripe } from './stripe-client';
 import { config } from './config';
-import { createCheckoutSessionSchema } from './validation';
-import { findBookingByBookingId, updateBooking, triggerBookingWebhook } from './ghl';
-import { STRIPE_ERROR_CODES } from './types';
-import type { ApiResponse, CheckoutSessionResponse } from './types';
+import { getTodayDateString } from './dates';
+import { createCheckoutSessionSchema, cancelBookingSchema } from './validation';
+import {
+  findBookingByBookingId,
+  findBookingsByPaymentReference,
+  fetchBookingByRecordId,
+  fetchContactById,
+  fetchOfferingById,
+  updateBooking,
+} from './ghl';
+import { getSeatsRemaining, syncOfferingAvailability } from './capacity';
+import { getCachedOfferingById } from './offerings-cache';
+import { releaseSeats } from './waitlist';
+import { isHoldActive, createHoldExpiry, getCheckoutHoldExpiry, recordSeatHold, releaseSeatHold } from './holds';
+import { verifyCheckoutToken, CheckoutTokenError } from './checkout-token';
+import { getPolicyRefundPercent } from './cancellation';
+import { withLock, withLocks } from './lock';
+import { getStripeEvent, startStripeEvent, finishStripeEvent } from './stripe-events';
+import { enqueueBookingWebhook } from './outbox';
+import {
+  extendPromoCodeReservations,
+  getPromoCodeReference,
+  redeemPromoCode,
+  releasePromoCodeReservations,
+} from './promo-codes';
+import { buildBookingEventPayload, buildOrderPaidPayload } from './booking-events';
+import { formatPrice, fromMinorUnits, normaliseCurrency, toMinorUnits } from './currency';
+import {
+  PaymentPlanError,
+  buildPaymentSchedule,
+  getBalanceDueDate,
+  findPlanPaymentByPaymentIntent,
+  isOnPaymentPlan,
+  listPlanPayments,
+  recordPlanPayment,
+  recordPlanRefund,
+  sumPlanPayments,
+} from './payment-plans';
+import type { PlanPayment } from './payment-plans';
+import {
+  ERROR_CODES,
+  STRIPE_ERROR_CODES,
+  PAYMENT_STATUS,
+  PAYMENT_PLAN,
+  BOOKING_WEBHOOK_EVENTS,
+  STRIPE_EVENT_STATUS,
+  PRICING_RULE,
+  SEAT_SECURED_STATUSES,
+} from './types';
+import type {
+  ApiResponse,
+  Booking,
+  BookingWebhookPayload,
+  CancelBookingResponse,
+  CheckoutSessionResponse,
+  CheckoutSummaryItem,
+  PaymentPlan,
+  PaymentSchedule,
+  StripeEventLogEntry,
+  WorkshopOffering,
+} from './types';
 
 function jsonResponse<T>(data: ApiResponse<T>, status = 200): Response {
   return new Response(JSON.stringify(data), {
@@ -12,7 +70,182 @@ function jsonResponse<T>(data: ApiResponse<T>, status = 200): Response {
   });
 }
 
-export async function handleCreateCheckoutSession(request: Request): Promise<Response> {
+class CheckoutError extends Error {
+  constructor(
+    public readonly code: string,
+    message: string,
+    public readonly status = 400
+  ) {
+    super(message);
+    this.name = 'CheckoutError';
+  }
+}
+
+/** Bookings made before offerings had their own currency are in `STRIPE_CURRENCY` */
+function getBookingCurrency(booking: Booking): string {
+  return normaliseCurrency(booking.currency);
+}
+
+interface PayableBooking {
+  booking: Booking;
+  offering: WorkshopOffering;
+}
+
+async function loadPayableBooking(bookingId: string): Promise<PayableBooking> {
+  const booking = await findBookingByBookingId(bookingId);
+
+  if (!booking) {
+    throw new CheckoutError(STRIPE_ERROR_CODES.BOOKING_NOT_FOUND, 'Booking not found', 404);
+  }
+
+  return { booking, offering: await getPayableOffering(booking) };
+}
+
+/** Every booking in an order is paid together, so every one of them must still be payable */
+async function loadPayableOrder(orderId: string, recordIds: string[]): Promise<PayableBooking[]> {
+  const bookings = await Promise.all(recordIds.map((recordId) => fetchBookingByRecordId(recordId)));
+
+  if (bookings.length === 0 || bookings.some((booking) => !booking || booking.orderId !== orderId)) {
+    throw new CheckoutError(STRIPE_ERROR_CODES.BOOKING_NOT_FOUND, 'Order not found', 404);
+  }
+
+  return Promise.all(
+    bookings.map(async (booking) => ({ booking: booking!, offering: await getPayableOffering(booking!) }))
+  );
+}
+
+/** Checks the booking can be paid for now and returns its offering */
+async function getPayableOffering(booking: Booking): Promise<WorkshopOffering> {
+  if (booking.paymentStatus !== PAYMENT_STATUS.PENDING) {
+    throw new CheckoutError(
+      STRIPE_ERROR_CODES.BOOKING_NOT_PAYABLE,
+      `Booking cannot be paid (status: ${booking.paymentStatus || 'unknown'})`,
+      409
+    );
+  }
+
+  if (!isHoldActive(booking)) {
+    throw new CheckoutError(
+      STRIPE_ERROR_CODES.HOLD_EXPIRED,
+      'Your seat reservation has expired. Please book again.',
+      409
+    );
+  }
+
+  const offering = await getCachedOfferingById(booking.workshopOfferingId);
+
+  if (!offering) {
+    throw new CheckoutError(STRIPE_ERROR_CODES.OFFERING_NOT_FOUND, 'Offering not found', 404);
+  }
+
+  // The booking snapshots the offering price; if the offering has since been
+  // repriced we refuse to charge either amount and ask the parent to rebook.
+  if (offering.price !== booking.offeringPrice) {
+    throw new CheckoutError(
+      STRIPE_ERROR_CODES.PRICE_MISMATCH,
+      'Workshop price has changed since this booking was made. Please book again.',
+      409
+    );
+  }
+
+  return offering;
+}
+
+async function buildLineItem(
+  booking: Booking,
+  offering: WorkshopOffering
+): Promise<Stripe.Checkout.SessionCreateParams.LineItem> {
+  const currency = getBookingCurrency(booking);
+  const unitAmount = toMinorUnits(booking.pricePaid, currency);
+
+  if (offering.stripePriceId && booking.pricePaid === booking.offeringPrice) {
+    const price = await stripe.prices.retrieve(offering.stripePriceId);
+
+    if (price.unit_amount !== unitAmount || price.currency !== currency) {
+      throw new CheckoutError(
+        STRIPE_ERROR_CODES.PRICE_MISMATCH,
+        `Stripe price ${price.id} does not match the workshop price`,
+        409
+      );
+    }
+
+    return { price: price.id, quantity: 1 };
+  }
+
+  return {
+    price_data: {
+      currency,
+      product_data: {
+        name: `${offering.subject || 'Workshop'} - ${offering.workshopDate} ${offering.sessionTime}`.trim(),
+        // Siblings in one order get a line item each, told apart by name
+        description: `${booking.studentFirstName} ${booking.studentLastName} - Booking ID: ${booking.bookingId}`.trim(),
+      },
+      unit_amount: unitAmount,
+    },
+    quantity: 1,
+  };
+}
+
+/**
+ * A deposit is charged as a one-off line item. Instalments are a monthly
+ * recurring price, with any odd pennies from the split added to the first
+ * invoice as a one-off item.
+ */
+function buildPlanLineItems(
+  booking: Booking,
+  offering: WorkshopOffering,
+  schedule: PaymentSchedule
+): Stripe.Checkout.SessionCreateParams.LineItem[] {
+  const currency = getBookingCurrency(booking);
+  const name = `${offering.subject || 'Workshop'} - ${offering.workshopDate} ${offering.sessionTime}`.trim();
+  const description = `${booking.studentFirstName} ${booking.studentLastName} - Booking ID: ${booking.bookingId}`.trim();
+  const [first, second] = schedule.payments;
+
+  if (schedule.plan === PAYMENT_PLAN.DEPOSIT) {
+    return [
+      {
+        price_data: {
+          currency,
+          product_data: { name: `${name} (deposit)`, description },
+          unit_amount: toMinorUnits(first.amount, currency),
+        },
+        quantity: 1,
+      },
+    ];
+  }
+
+  const instalmentMinor = toMinorUnits(second.amount, currency);
+  const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = [
+    {
+      price_data: {
+        currency,
+        product_data: { name: `${name} (${schedule.payments.length} monthly instalments)`, description },
+        unit_amount: instalmentMinor,
+        recurring: { interval: 'month' },
+      },
+      quantity: 1,
+    },
+  ];
+
+  const extraMinor = toMinorUnits(first.amount, currency) - instalmentMinor;
+  if (extraMinor > 0) {
+    lineItems.push({
+      price_data: {
+        currency,
+        product_data: { name: `${name} (rounding on first instalment)`, description },
+        unit_amount: extraMinor,
+      },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+}
+
+export async function handleCreateCheckoutSession(
+  request: Request,
+  idempotencyKey: string | null = null
+): Promise<Response> {
   try {
     const body = await request.json();
     const result = createCheckoutSessionSchema.safeParse(body);
@@ -30,59 +263,186 @@ export async function handleCreateCheckoutSession(request: Request): Promise<Res
       );
     }
 
-    const {
-      bookingId, customerEmail, customerName, priceId, amount, description,
-      parentPhone, studentName, studentEmail,
-      offeringId, offeringName, offeringSubject, offeringDate, offeringTime, offeringYearGroup, offeringZoomLink,
-    } = result.data;
+    const subject = verifyCheckoutToken(result.data.token);
+    const orderId = 'orderId' in subject ? subject.orderId : null;
+    const items =
+      'orderId' in subject
+        ? await loadPayableOrder(subject.orderId, subject.recordIds)
+        : [await loadPayableBooking(subject.bookingId)];
 
-    const lineItems = priceId
-      ? [{ price: priceId, quantity: 1 }]
-      : [
-          {
-            price_data: {
-              currency: config.stripe.currency,
-              product_data: {
-                name: description!,
-                description: `Booking ID: ${bookingId}`,
-              },
-              unit_amount: amount!,
+    // Parent details are the same on every booking in an order
+    const [{ booking, offering }] = items;
+    // Payment plans are only taken on single bookings
+    const paymentSchedule =
+      !orderId && isOnPaymentPlan(booking)
+        ? buildPaymentSchedule(booking.paymentPlan as PaymentPlan, offering, booking.pricePaid, getTodayDateString())
+        : null;
+    const lineItems = paymentSchedule
+      ? buildPlanLineItems(booking, offering, paymentSchedule)
+      : await Promise.all(items.map(({ booking: item, offering: itemOffering }) => buildLineItem(item, itemOffering)));
+    const student = await fetchContactById(booking.studentContactId);
+
+    const customerName = `${booking.parentFirstName} ${booking.parentLastName}`.trim();
+
+    // The session must not outlive the seat hold, and Stripe needs at least 30
+    // minutes, so a nearly-lapsed hold is extended to cover the session.
+    const holdExpiries = await Promise.all(
+      items.map(async ({ booking: item }) => {
+        const expiresAt = getCheckoutHoldExpiry(item);
+        if (expiresAt !== item.expiresAt) {
+          await updateBooking(item.id, { expiresAt });
+          recordSeatHold(item.id, item.workshopOfferingId, expiresAt);
+        }
+        return expiresAt;
+      })
+    );
+    const holdExpiresAt = holdExpiries.reduce((earliest, expiresAt) => (expiresAt < earliest ? expiresAt : earliest));
+    // A promo code use is held for as long as the checkout can be paid
+    extendPromoCodeReservations(orderId ?? booking.bookingId, holdExpiresAt);
+
+    const sessionExpiresAt = Math.floor(Date.parse(holdExpiresAt) / 1000);
+
+    // Stripe then also dedupes the session if our own stored response was lost.
+    // A retry can move the hold's expiry, and Stripe rejects a reused key sent
+    // with different parameters, so the expiry is part of the key.
+    const requestOptions = idempotencyKey
+      ? { idempotencyKey: `checkout-session-${idempotencyKey}-${sessionExpiresAt}` }
+      : undefined;
+
+    // Order sessions carry record IDs so the webhook can read every booking
+    // directly; Stripe metadata values are limited to 500 characters.
+    const metadata: Stripe.MetadataParam = orderId
+      ? {
+          orderId,
+          ...(booking.packageId && { packageId: booking.packageId }),
+          bookingRecordIds: items.map(({ booking: item }) => item.id).join(','),
+          customerName,
+          customerEmail: booking.parentEmail,
+          parentPhone: booking.parentPhone,
+        }
+      : {
+          bookingId: booking.bookingId,
+          customerName,
+          customerEmail: booking.parentEmail,
+          parentPhone: booking.parentPhone,
+          studentName: `${booking.studentFirstName} ${booking.studentLastName}`.trim(),
+          studentEmail: student?.email || '',
+          offeringId: offering.id,
+          offeringName: offering.offering,
+          offeringSubject: offering.subject,
+          offeringDate: offering.workshopDate,
+          offeringTime: offering.sessionTime,
+          offeringYearGroup: offering.yearGroup,
+          offeringZoomLink: offering.zoomLink,
+          ...(paymentSchedule && {
+            paymentPlan: paymentSchedule.plan,
+            instalments: String(paymentSchedule.payments.length),
+          }),
+        };
+
+    // Instalments are a subscription, which Checkout creates a customer for;
+    // a deposit saves the card so the balance can be charged to it later.
+    const paymentParams: Partial<Stripe.Checkout.SessionCreateParams> =
+      paymentSchedule?.plan === PAYMENT_PLAN.INSTALMENTS
+        ? {
+            mode: 'subscription',
+            subscription_data: { metadata: { bookingId: booking.bookingId } },
+          }
+        : {
+            mode: 'payment',
+            payment_intent_data: {
+              metadata: orderId ? { orderId } : { bookingId: booking.bookingId },
+              ...(paymentSchedule && { setup_future_usage: 'off_session' as const }),
             },
-            quantity: 1,
-          },
-        ];
+            ...(paymentSchedule && { customer_creation: 'always' as const }),
+          };
+
+    const returnQuery = orderId ? `order_id=${orderId}` : `booking_id=${booking.bookingId}`;
+
+    // Only the newest checkout can be paid, so a second tab or a reload
+    // doesn't leave two sessions that each take the parent's money
+    await expireOpenCheckoutSessions(booking);
 
     const session = await stripe.checkout.sessions.create({
       ui_mode: 'embedded',
-      mode: 'payment',
-      customer_email: customerEmail,
+      ...paymentParams,
+      customer_email: booking.parentEmail,
+      client_reference_id: orderId ?? booking.bookingId,
       line_items: lineItems,
-      metadata: {
-        bookingId,
-        customerName,
-        customerEmail,
-        parentPhone,
-        studentName,
-        studentEmail,
-        offeringId,
-        offeringName,
-        offeringSubject,
-        offeringDate,
-        offeringTime,
-        offeringYearGroup,
-        offeringZoomLink,
-      },
-      return_url: `${config.stripe.successUrl}?booking_id=${bookingId}&session_id={CHECKOUT_SESSION_ID}`,
-    });
+      expires_at: sessionExpiresAt,
+      metadata,
+      return_url: `${config.stripe.successUrl}?${returnQuery}&session_id={CHECKOUT_SESSION_ID}`,
+    }, requestOptions);
+
+    const summaryItems: CheckoutSummaryItem[] = items.map(({ booking: item, offering: itemOffering }) => ({
+      bookingId: item.bookingId,
+      offeringName: itemOffering.offering,
+      subject: itemOffering.subject,
+      workshopDate: itemOffering.workshopDate,
+      sessionTime: itemOffering.sessionTime,
+      studentName: `${item.studentFirstName} ${item.studentLastName}`.trim(),
+      amount: item.pricePaid,
+    }));
 
     return jsonResponse<CheckoutSessionResponse>({
       success: true,
       data: {
         clientSecret: session.client_secret!,
         publishableKey: config.stripe.publishableKey,
+        summary: {
+          ...summaryItems[0],
+          orderId,
+          parentEmail: booking.parentEmail,
+          amount: paymentSchedule
+            ? paymentSchedule.payments[0].amount
+            : summaryItems.reduce((sum, item) => sum + item.amount, 0),
+          currency: getBookingCurrency(booking),
+          items: summaryItems,
+          paymentSchedule,
+        },
       },
     });
   } catch (error: any) {
+    if (error instanceof CheckoutTokenError) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        },
+        error.code === STRIPE_ERROR_CODES.CHECKOUT_TOKEN_EXPIRED ? 410 : 400
+      );
+    }
+
+    if (error instanceof CheckoutError) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        },
+        error.status
+      );
+    }
+
+    // The plan was available when the booking was made but has since closed
+    if (error instanceof PaymentPlanError) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        },
+        409
+      );
+    }
+
     console.error('Stripe session creation error:', error);
 
     if (error.type === 'StripeCardError') {
@@ -111,162 +471,1409 @@ export async function handleCreateCheckoutSession(request: Request): Promise<Res
   }
 }
 
-export async function handleStripeWebhook(request: Request): Promise<Response> {
-  const signature = request.headers.get('stripe-signature');
+function getPaymentIntentId(session: Stripe.Checkout.Session): string | null {
+  const paymentIntent = session.payment_intent;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? null;
+}
 
-  if (!signature) {
-    return jsonResponse(
-      {
-        success: false,
-        error: {
-          code: STRIPE_ERROR_CODES.WEBHOOK_SIGNATURE_MISSING,
-          message: 'Missing Stripe signature',
-        },
-      },
-      400
-    );
+/** Reads an order's bookings by the record IDs stored on its checkout session */
+async function loadOrderBookings(session: Stripe.Checkout.Session): Promise<Booking[]> {
+  const recordIds = (session.metadata?.bookingRecordIds || '').split(',').filter(Boolean);
+  const bookings = await Promise.all(recordIds.map((recordId) => fetchBookingByRecordId(recordId)));
+  return bookings.filter((booking): booking is Booking => booking !== null);
+}
+
+/** Counts a promo code use for each code the paid bookings were priced with */
+function redeemPromoCodes(bookings: Booking[], reference: string): void {
+  const codes = new Set(
+    bookings.filter((b) => b.pricingRule === PRICING_RULE.PROMO_CODE && b.promoCode).map((b) => b.promoCode)
+  );
+
+  for (const code of codes) {
+    redeemPromoCode(code, reference);
   }
+}
 
-  let event;
+/**
+ * Compares what Stripe charged with what the bookings were priced at, and
+ * describes any difference ('' when there is none). Plan checkouts only take
+ * the first payment, so only their currency is checked.
+ */
+export function describePaymentMismatch(
+  session: Stripe.Checkout.Session,
+  bookings: Booking[],
+  options: { checkAmount: boolean }
+): string {
+  const currency = getBookingCurrency(bookings[0]);
+  const charged = normaliseCurrency(session.currency);
+  const expectedMinor = bookings.reduce((sum, b) => sum + toMinorUnits(b.pricePaid, currency), 0);
+  const chargedMinor = session.amount_total ?? 0;
 
-  try {
-    const rawBody = await request.text();
+  if (charged === currency && (!options.checkAmount || chargedMinor === expectedMinor)) {
+    return '';
+  }
 
-    event = await stripe.webhooks.constructEventAsync(
-      rawBody,
-      signature,
-      config.stripe.webhookSecret
+  const expected = options.checkAmount
+    ? formatPrice(fromMinorUnits(expectedMinor, currency), currency)
+    : currency.toUpperCase();
+  const chargedLabel = formatPrice(fromMinorUnits(chargedMinor, charged), charged);
+  return `Stripe charged ${chargedLabel} (session ${session.id}); expected ${expected}`;
+}
+
+async function handleOrderCompleted(session: Stripe.Checkout.Session, orderId: string): Promise<void> {
+  const found = await loadOrderBookings(session);
+
+  if (found.length === 0) {
+    console.error(`Webhook: No bookings found for order ${orderId}`);
+    return;
+  }
+
+  await withLocks(found.map((booking) => `booking:${booking.bookingId}`), async () => {
+    const current = await Promise.all(found.map(async (b) => (await fetchBookingByRecordId(b.id)) ?? b));
+    // Bookings cancelled while the checkout was open, whose seat went to
+    // someone else after their hold lapsed, or already paid through another
+    // checkout, are refunded their share; the rest of the order is still paid for
+    const cancelled = current.filter((b) => b.paymentStatus === PAYMENT_STATUS.CANCELLED);
+    const lapsed = current.filter((b) => b.paymentStatus === PAYMENT_STATUS.EXPIRED);
+    // Bookings already refunded on an earlier delivery of this event don't claim a seat again
+    const unseated = [
+      ...lapsed.filter((b) => b.paymentReference),
+      ...(await reclaimLapsedSeats(lapsed.filter((b) => !b.paymentReference))),
+    ];
+    const paidElsewhere = current.filter((b) => isPaidByOtherCheckout(session, b));
+    const payable = current.filter(
+      (b) => !cancelled.includes(b) && !unseated.includes(b) && !paidElsewhere.includes(b)
     );
-  } catch (error: any) {
-    console.error('Webhook signature verification failed:', error.message);
-    return jsonResponse(
+    const share = (booking: Booking) => ({
+      booking,
+      amountMinor: toMinorUnits(booking.pricePaid, getBookingCurrency(booking)),
+    });
+
+    if (cancelled.length > 0) {
+      await refundUnseatedCheckout(session, cancelled.map(share), 'cancelled');
+    }
+
+    if (unseated.length > 0) {
+      await refundUnseatedCheckout(session, unseated.map(share), 'full');
+    }
+
+    if (paidElsewhere.length > 0) {
+      await refundDuplicateCheckout(session, paidElsewhere.map(share));
+    }
+
+    if (payable.length === 0) return;
+
+    if (payable.every((b) => b.paymentStatus === PAYMENT_STATUS.PAID && b.webhookTriggered)) {
+      console.log(`Webhook: Order ${orderId} already complete, skipping`);
+      return;
+    }
+
+    const paymentReference = getPaymentIntentId(session) ?? '';
+    // The payment has been taken either way, so a mismatch is flagged on the
+    // bookings for someone to look into rather than failing the webhook
+    const paymentMismatch = describePaymentMismatch(session, current, { checkAmount: true });
+
+    if (paymentMismatch) {
+      console.error(`Webhook: Payment mismatch on order ${orderId}: ${paymentMismatch}`);
+    }
+
+    for (const booking of payable) {
+      if (booking.paymentStatus !== PAYMENT_STATUS.PAID) {
+        await updateBooking(booking.id, {
+          paymentStatus: PAYMENT_STATUS.PAID,
+          currency: getBookingCurrency(booking),
+          paymentReference,
+          paymentMismatch,
+        });
+        console.log(`Webhook: Booking ${booking.bookingId} (order ${orderId}) marked as paid`);
+      }
+    }
+
+    const bookings = payable.map((b) => ({ ...b, paymentStatus: PAYMENT_STATUS.PAID }));
+    redeemPromoCodes(bookings, orderId);
+    const offeringIds = [...new Set(bookings.map((b) => b.workshopOfferingId))];
+    const studentIds = [...new Set(bookings.map((b) => b.studentContactId))];
+
+    for (const offeringId of offeringIds) {
+      await syncOfferingAvailability(offeringId);
+    }
+
+    const [offerings, students] = await Promise.all([
+      Promise.all(offeringIds.map(async (id) => [id, await getCachedOfferingById(id)] as const)),
+      Promise.all(studentIds.map(async (id) => [id, await fetchContactById(id)] as const)),
+    ]);
+
+    // One notification for the whole order, delivered by the outbox like booking.paid
+    enqueueBookingWebhook(
+      buildOrderPaidPayload(orderId, bookings, new Map(offerings), new Map(students), {
+        stripeSessionId: session.id,
+        stripePaymentIntentId: getPaymentIntentId(session),
+        amountTotal: session.amount_total,
+        currency: session.currency,
+      }),
+      bookings[0].id,
+      `${BOOKING_WEBHOOK_EVENTS.ORDER_PAID}:${orderId}`
+    );
+
+    console.log(`Webhook: Order ${orderId} fully processed (${bookings.length} bookings)`);
+  });
+}
+
+async function handleOrderExpired(session: Stripe.Checkout.Session, orderId: string): Promise<void> {
+  const found = await loadOrderBookings(session);
+
+  await withLocks(found.map((booking) => `booking:${booking.bookingId}`), async () => {
+    const offeringIds = new Set<string>();
+    let expired = false;
+
+    for (const candidate of found) {
+      const booking = (await fetchBookingByRecordId(candidate.id)) ?? candidate;
+
+      // A live hold means a newer checkout replaced this one
+      if (booking.paymentStatus === PAYMENT_STATUS.PENDING && !isHoldActive(booking)) {
+        await updateBooking(booking.id, { paymentStatus: PAYMENT_STATUS.EXPIRED });
+        releaseSeatHold(booking.id);
+        console.log(`Webhook: Booking ${booking.bookingId} (order ${orderId}) marked as expired`);
+        expired = true;
+      }
+      offeringIds.add(booking.workshopOfferingId);
+    }
+
+    if (expired) releasePromoCodeReservations(orderId);
+
+    for (const offeringId of offeringIds) {
+      await releaseSeats(offeringId);
+    }
+  });
+}
+
+function getInvoiceBookingId(invoice: Stripe.Invoice): string | null {
+  return invoice.metadata?.bookingId || invoice.parent?.subscription_details?.metadata?.bookingId || null;
+}
+
+async function getInvoicePaymentIntentId(invoiceId: string): Promise<string | null> {
+  const payments = await stripe.invoicePayments.list({ invoice: invoiceId, status: 'paid', limit: 1 });
+  const paymentIntent = payments.data[0]?.payment.payment_intent;
+  return typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? null;
+}
+
+/** What a plan booking has paid so far, and what's left, for GHL */
+function buildPlanSummary(booking: Booking, receivedMinor: number): NonNullable<BookingWebhookPayload['paymentPlan']> {
+  const currency = getBookingCurrency(booking);
+  return {
+    plan: booking.paymentPlan as PaymentPlan,
+    amountReceived: fromMinorUnits(receivedMinor, currency),
+    balance: fromMinorUnits(Math.max(toMinorUnits(booking.pricePaid, currency) - receivedMinor, 0), currency),
+  };
+}
+
+/**
+ * Raises the balance as an invoice that Stripe finalises and charges to the
+ * card saved at checkout on the balance due date. Returns the invoice ID.
+ */
+async function scheduleBalanceInvoice(
+  session: Stripe.Checkout.Session,
+  booking: Booking,
+  customer: string,
+  balanceMinor: number
+): Promise<string> {
+  const paymentIntent = await stripe.paymentIntents.retrieve(getPaymentIntentId(session)!);
+  const paymentMethod =
+    typeof paymentIntent.payment_method === 'string' ? paymentIntent.payment_method : paymentIntent.payment_method?.id;
+  const currency = getBookingCurrency(booking);
+  // Stripe needs the finalisation time to be in the future
+  const finalizesAt = Math.max(
+    Date.parse(`${getBalanceDueDate(booking.workshopDate)}T09:00:00Z`),
+    Date.now() + 60 * 60 * 1000
+  );
+
+  const invoice = await stripe.invoices.create(
+    {
+      customer,
+      currency,
+      collection_method: 'charge_automatically',
+      auto_advance: true,
+      automatically_finalizes_at: Math.floor(finalizesAt / 1000),
+      default_payment_method: paymentMethod,
+      pending_invoice_items_behavior: 'exclude',
+      description: `Balance for booking ${booking.bookingId}`,
+      metadata: { bookingId: booking.bookingId },
+    },
+    { idempotencyKey: `balance-invoice-${booking.bookingId}` }
+  );
+
+  await stripe.invoiceItems.create(
+    {
+      customer,
+      invoice: invoice.id,
+      amount: balanceMinor,
+      currency,
+      description: `${booking.subject || 'Workshop'} - ${booking.workshopDate} ${booking.sessionTime} (balance)`.trim(),
+    },
+    { idempotencyKey: `balance-item-${booking.bookingId}` }
+  );
+
+  return invoice.id!;
+}
+
+/**
+ * Limits the instalments subscription to its number of payments by moving it
+ * onto a schedule that cancels it after the last one. Returns the
+ * subscription ID.
+ */
+async function scheduleInstalments(session: Stripe.Checkout.Session, instalments: number): Promise<string> {
+  const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription!.id;
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  const existing = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+  const schedule = existing
+    ? await stripe.subscriptionSchedules.retrieve(existing)
+    : await stripe.subscriptionSchedules.create({ from_subscription: subscriptionId });
+  const [phase] = schedule.phases;
+
+  await stripe.subscriptionSchedules.update(schedule.id, {
+    end_behavior: 'cancel',
+    phases: [
       {
-        success: false,
-        error: {
-          code: STRIPE_ERROR_CODES.WEBHOOK_SIGNATURE_INVALID,
-          message: 'Invalid webhook signature',
-        },
+        items: phase.items.map((item) => ({
+          price: typeof item.price === 'string' ? item.price : item.price.id,
+          quantity: item.quantity,
+        })),
+        start_date: phase.start_date,
+        duration: { interval: 'month', interval_count: instalments },
       },
-      400
-    );
+    ],
+  });
+
+  return subscriptionId;
+}
+
+/**
+ * The first payment on a payment plan secures the seat. The rest is then
+ * set up in Stripe: a balance invoice for a deposit, or a schedule that
+ * ends the instalments subscription after its last payment.
+ */
+async function handlePlanCheckoutCompleted(session: Stripe.Checkout.Session, booking: Booking): Promise<void> {
+  const meta = session.metadata || {};
+  const plan = meta.paymentPlan as PaymentPlan;
+
+  // Later payments may already have moved the booking on
+  if (booking.paymentPlanReference && SEAT_SECURED_STATUSES.includes(booking.paymentStatus)) {
+    console.log(`Webhook: Booking ${booking.bookingId} already complete, skipping`);
+    return;
   }
 
-  try {
-    switch (event.type) {
-      case 'checkout.session.completed': {
-        const session = event.data.object;
-        const meta = session.metadata || {};
-        const bookingId = meta.bookingId;
-
-        if (!bookingId) {
-          console.error('Webhook: Missing bookingId in session metadata');
-          break;
-        }
+  const paymentIntent = getPaymentIntentId(session);
+  const invoiceId = typeof session.invoice === 'string' ? session.invoice : session.invoice?.id;
 
-        const booking = await findBookingByBookingId(bookingId);
+  // Instalments are recorded against their invoice, so `invoice.paid` for
+  // the same payment doesn't count it twice.
+  recordPlanPayment({
+    reference: plan === PAYMENT_PLAN.INSTALMENTS && invoiceId ? invoiceId : session.id,
+    bookingId: booking.bookingId,
+    paymentIntent,
+    amountMinor: session.amount_total ?? 0,
+  });
 
-        if (!booking) {
-          console.error(`Webhook: Booking not found: ${bookingId}`);
-          break;
-        }
+  let paymentPlanReference = booking.paymentPlanReference;
 
-        // Fully processed — nothing to do
-        if (booking.paymentStatus === 'paid' && booking.webhookTriggered) {
-          console.log(`Webhook: Booking ${bookingId} already complete, skipping`);
-          break;
-        }
+  if (!paymentPlanReference) {
+    const customer = typeof session.customer === 'string' ? session.customer : session.customer?.id;
 
-        const paymentIntent = session.payment_intent;
+    if (!customer) {
+      throw new Error(`Checkout session ${session.id} has no customer to collect the rest of the plan from`);
+    }
 
-        // Mark as paid if not already (idempotent on retries)
-        if (booking.paymentStatus !== 'paid') {
-          await updateBooking(booking.id, {
-            paymentStatus: 'paid',
-            currency: session.currency || '',
-            paymentReference: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? '',
-          });
-          console.log(`Webhook: Booking ${bookingId} marked as paid`);
-        }
+    paymentPlanReference =
+      plan === PAYMENT_PLAN.DEPOSIT
+        ? await scheduleBalanceInvoice(
+            session,
+            booking,
+            customer,
+            toMinorUnits(booking.pricePaid, getBookingCurrency(booking)) - (session.amount_total ?? 0)
+          )
+        : await scheduleInstalments(session, Number(meta.instalments));
+  }
 
-        // Trigger GHL webhook — if this fails, the whole handler returns 500
-        // so Stripe retries. The payment update above is skipped on retry
-        // (already paid), but we reattempt the webhook since webhookTriggered is still false.
+  const currency = getBookingCurrency(booking);
+  const { received } = sumPlanPayments(listPlanPayments(booking.bookingId), currency);
+  const receivedMinor = toMinorUnits(received, currency);
+  const paymentMismatch = describePaymentMismatch(session, [booking], { checkAmount: false });
 
-        await triggerBookingWebhook({
-          booking: {
-            bookingId: booking.bookingId,
-            paymentStatus: 'paid',
-            pricePaid: booking.pricePaid,
-          },
-          offering: {
-            id: meta.offeringId || '',
-            name: meta.offeringName || '',
-            subject: meta.offeringSubject || '',
-            workshopDate: meta.offeringDate || '',
-            sessionTime: meta.offeringTime || '',
-            yearGroup: meta.offeringYearGroup || '',
-            zoomLink: meta.offeringZoomLink || '',
-          },
-          parent: {
-            name: meta.customerName || '',
-            email: meta.customerEmail || '',
-            phone: meta.parentPhone || '',
-          },
-          student: {
-            name: meta.studentName || '',
-            email: meta.studentEmail || '',
-          },
-          payment: {
-            stripeSessionId: session.id,
-            stripePaymentIntentId: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? null,
-            amountTotal: session.amount_total,
-            currency: session.currency,
-          },
-        });
+  if (paymentMismatch) {
+    console.error(`Webhook: Payment mismatch on booking ${booking.bookingId}: ${paymentMismatch}`);
+  }
 
-        // Mark webhook as triggered — if this fails, Stripe retries,
-        // webhook fires again (acceptable), and we reattempt the flag update.
-        await updateBooking(booking.id, { webhookTriggered: true });
-        console.log(`Webhook: Booking ${bookingId} fully processed`);
-        break;
-      }
+  const updated: Booking = {
+    ...booking,
+    paymentStatus:
+      receivedMinor >= toMinorUnits(booking.pricePaid, currency) ? PAYMENT_STATUS.PAID : PAYMENT_STATUS.DEPOSIT_PAID,
+    currency,
+    paymentPlan: plan,
+    amountReceived: received,
+    paymentPlanReference,
+  };
 
-      case 'checkout.session.expired': {
-        const session = event.data.object;
-        const bookingId = session.metadata?.bookingId;
+  await updateBooking(booking.id, {
+    paymentStatus: updated.paymentStatus,
+    currency: updated.currency,
+    paymentReference: paymentIntent ?? '',
+    paymentPlan: updated.paymentPlan,
+    amountReceived: updated.amountReceived,
+    paymentPlanReference,
+    paymentMismatch,
+  });
+  console.log(`Webhook: Booking ${booking.bookingId} first ${plan} payment received (${received} so far)`);
 
-        if (!bookingId) {
-          console.error('Webhook: Missing bookingId in session metadata');
-          break;
-        }
+  redeemPromoCodes([booking], booking.bookingId);
+  await syncOfferingAvailability(booking.workshopOfferingId);
 
-        const booking = await findBookingByBookingId(bookingId);
+  const [offering, student] = await Promise.all([
+    getCachedOfferingById(booking.workshopOfferingId),
+    fetchContactById(booking.studentContactId),
+  ]);
 
-        if (!booking) {
-          console.error(`Webhook: Booking not found: ${bookingId}`);
-          break;
-        }
+  enqueueBookingWebhook(
+    buildBookingEventPayload(BOOKING_WEBHOOK_EVENTS.DEPOSIT_PAID, updated, offering, student, {
+      payment: {
+        stripeSessionId: session.id,
+        stripePaymentIntentId: paymentIntent,
+        amountTotal: session.amount_total,
+        currency: session.currency,
+      },
+      paymentPlan: buildPlanSummary(updated, receivedMinor),
+    }),
+    booking.id,
+    `${BOOKING_WEBHOOK_EVENTS.DEPOSIT_PAID}:${booking.bookingId}`
+  );
 
-        if (booking.paymentStatus === 'pending') {
-          await updateBooking(booking.id, { paymentStatus: 'expired' });
-          console.log(`Webhook: Booking ${bookingId} marked as expired`);
-        }
-        break;
-      }
+  console.log(`Webhook: Booking ${booking.bookingId} fully processed`);
+}
+
+/**
+ * Stops any payments still to come on a plan, so a cancelled or refunded
+ * booking isn't charged again.
+ */
+async function stopPaymentPlan(booking: Booking): Promise<void> {
+  const reference = booking.paymentPlanReference;
+
+  if (!reference) return;
+
+  if (booking.paymentPlan === PAYMENT_PLAN.INSTALMENTS) {
+    const subscription = await stripe.subscriptions.retrieve(reference);
 
-      default:
-        console.log(`Webhook: Unhandled event type: ${event.type}`);
+    if (subscription.status === 'canceled') return;
+
+    const scheduleId = typeof subscription.schedule === 'string' ? subscription.schedule : subscription.schedule?.id;
+    if (scheduleId) {
+      await stripe.subscriptionSchedules.cancel(scheduleId);
+    } else {
+      await stripe.subscriptions.cancel(reference);
     }
+    console.log(`Booking ${booking.bookingId} instalments stopped`);
+    return;
+  }
 
-    return jsonResponse({ success: true });
-  } catch (error: any) {
-    console.error('Webhook processing error:', error);
-    return jsonResponse(
+  const invoice = await stripe.invoices.retrieve(reference);
+
+  if (invoice.status === 'draft') {
+    await stripe.invoices.del(reference);
+  } else if (invoice.status === 'open') {
+    await stripe.invoices.voidInvoice(reference);
+  } else {
+    return;
+  }
+  console.log(`Booking ${booking.bookingId} balance invoice withdrawn`);
+}
+
+// Stripe keeps a Checkout Session open for at most 24 hours
+const MAX_CHECKOUT_SESSION_SECONDS = 24 * 60 * 60;
+
+/**
+ * Expires any checkout still open for a booking or its order, so a checkout
+ * left in another tab can't be paid once the booking is cancelled or a newer
+ * checkout replaces it
+ */
+async function expireOpenCheckoutSessions(booking: Booking): Promise<void> {
+  const reference = booking.orderId || booking.bookingId;
+  const sessions = stripe.checkout.sessions.list({
+    status: 'open',
+    created: { gte: Math.floor(Date.now() / 1000) - MAX_CHECKOUT_SESSION_SECONDS },
+    limit: 100,
+  });
+
+  for await (const session of sessions) {
+    if (session.client_reference_id !== reference) continue;
+
+    // A session completing at this moment can't be expired; its webhook
+    // refunds the payment instead.
+    try {
+      await stripe.checkout.sessions.expire(session.id);
+      console.log(`Booking ${booking.bookingId} checkout session ${session.id} expired`);
+    } catch (error) {
+      console.error(`Failed to expire checkout session ${session.id} for booking ${booking.bookingId}:`, error);
+    }
+  }
+}
+
+/**
+ * Refunds a completed checkout's payment, or part of it, and stops any
+ * subscription it started for instalments. Returns the refunded payment
+ * intent, or null if the checkout took no payment.
+ */
+async function refundCheckout(
+  session: Stripe.Checkout.Session,
+  amountMinor: number,
+  options: { bookingIds: string; reason: string; idempotencyKey: string }
+): Promise<string | null> {
+  const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id;
+
+  if (subscriptionId) {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (subscription.status !== 'canceled') {
+      await stripe.subscriptions.cancel(subscriptionId);
+    }
+  }
+
+  const invoiceId = typeof session.invoice === 'string' ? session.invoice : session.invoice?.id;
+  const paymentIntent = getPaymentIntentId(session) ?? (invoiceId ? await getInvoicePaymentIntentId(invoiceId) : null);
+
+  if (!paymentIntent) return null;
+
+  const amount = Math.min(amountMinor, session.amount_total ?? 0);
+
+  if (amount > 0) {
+    await stripe.refunds.create(
       {
-        success: false,
-        error: {
-          code: STRIPE_ERROR_CODES.WEBHOOK_PROCESSING_FAILED,
-          message: 'Webhook processing failed',
+        payment_intent: paymentIntent,
+        amount,
+        reason: 'requested_by_customer',
+        metadata: { bookingId: options.bookingIds, reason: options.reason },
+      },
+      { idempotencyKey: options.idempotencyKey }
+    );
+  }
+
+  return paymentIntent;
+}
+
+const UNSEATED_REFUNDS = {
+  cancelled: { reason: 'Paid after the booking was cancelled', label: 'cancelled booking' },
+  full: { reason: 'Paid after the hold lapsed and the workshop filled up', label: 'expired booking' },
+} as const;
+
+/**
+ * A checkout that was already open when its booking was cancelled, or when
+ * its hold lapsed and the seat went to someone else, can still be paid. The
+ * booking keeps its status and its share of the payment is refunded.
+ */
+async function refundUnseatedCheckout(
+  session: Stripe.Checkout.Session,
+  refunds: Array<{ booking: Booking; amountMinor: number }>,
+  cause: keyof typeof UNSEATED_REFUNDS
+): Promise<void> {
+  // Bookings with a payment reference were paid before they were cancelled,
+  // and that cancellation already refunded them
+  const unpaid = refunds.filter(({ booking }) => !booking.paymentReference);
+  if (unpaid.length === 0) return;
+
+  const { reason, label } = UNSEATED_REFUNDS[cause];
+  const bookingIds = unpaid.map(({ booking }) => booking.bookingId).join(', ');
+  const paymentIntent = await refundCheckout(
+    session,
+    unpaid.reduce((sum, refund) => sum + refund.amountMinor, 0),
+    { bookingIds, reason, idempotencyKey: `${cause}-checkout-${session.id}` }
+  );
+
+  if (!paymentIntent) {
+    console.error(`Webhook: Checkout ${session.id} paid for ${label} ${bookingIds} has no payment to refund`);
+    return;
+  }
+
+  // Recorded like a cancellation refund, so the charge.refunded webhook
+  // finds the booking and the refund is attributed to it
+  for (const { booking, amountMinor } of unpaid) {
+    const currency = getBookingCurrency(booking);
+    await updateBooking(booking.id, {
+      paymentReference: paymentIntent,
+      amountRefunded: fromMinorUnits(toMinorUnits(booking.amountRefunded, currency) + amountMinor, currency),
+    });
+  }
+
+  console.error(`Webhook: Checkout ${session.id} was paid for ${label} ${bookingIds}; payment refunded`);
+}
+
+/**
+ * A booking whose hold lapsed can still be paid in the moment before its
+ * checkout expires. It keeps its seat if one is still free, with a fresh
+ * local hold until GHL's search shows it paid. Returns the bookings whose
+ * seat has gone to someone else in the meantime.
+ */
+async function reclaimLapsedSeats(bookings: Booking[]): Promise<Booking[]> {
+  const offeringIds = [...new Set(bookings.map((b) => b.workshopOfferingId))];
+
+  return withLocks(offeringIds.map((id) => `offering:${id}`), async () => {
+    const unseated: Booking[] = [];
+
+    for (const offeringId of offeringIds) {
+      const claims = bookings.filter((b) => b.workshopOfferingId === offeringId);
+      const offering = await fetchOfferingById(offeringId);
+      const seatsRemaining = offering ? await getSeatsRemaining(offering) : null;
+      const seated = seatsRemaining === null ? claims : claims.slice(0, seatsRemaining);
+
+      for (const booking of seated) {
+        recordSeatHold(booking.id, offeringId, createHoldExpiry());
+      }
+      unseated.push(...claims.slice(seated.length));
+    }
+
+    return unseated;
+  });
+}
+
+/** Whether the booking was already paid through a different checkout, e.g. one left open in another tab */
+function isPaidByOtherCheckout(session: Stripe.Checkout.Session, booking: Booking): boolean {
+  if (!SEAT_SECURED_STATUSES.includes(booking.paymentStatus)) return false;
+
+  // Instalments are known by their subscription, everything else by its payment
+  const subscriptionId = typeof session.subscription === 'string' ? session.subscription : session.subscription?.id;
+  if (subscriptionId) {
+    return Boolean(booking.paymentPlanReference) && booking.paymentPlanReference !== subscriptionId;
+  }
+
+  const paymentIntent = getPaymentIntentId(session);
+  return Boolean(booking.paymentReference && paymentIntent) && booking.paymentReference !== paymentIntent;
+}
+
+/**
+ * Refunds a checkout that paid for bookings another checkout had already
+ * paid for, so the parent isn't charged twice. The bookings are left as they are.
+ */
+async function refundDuplicateCheckout(
+  session: Stripe.Checkout.Session,
+  refunds: Array<{ booking: Booking; amountMinor: number }>
+): Promise<void> {
+  const bookingIds = refunds.map(({ booking }) => booking.bookingId).join(', ');
+  const paymentIntent = await refundCheckout(
+    session,
+    refunds.reduce((sum, refund) => sum + refund.amountMinor, 0),
+    { bookingIds, reason: 'Already paid through another checkout', idempotencyKey: `duplicate-checkout-${session.id}` }
+  );
+
+  if (!paymentIntent) {
+    console.error(`Webhook: Checkout ${session.id} paid again for booking ${bookingIds} has no payment to refund`);
+    return;
+  }
+
+  console.error(`Webhook: Checkout ${session.id} paid again for already paid booking ${bookingIds}; payment refunded`);
+}
+
+async function handleCheckoutCompleted(session: Stripe.Checkout.Session): Promise<void> {
+  const meta = session.metadata || {};
+
+  if (meta.orderId) {
+    await handleOrderCompleted(session, meta.orderId);
+    return;
+  }
+
+  const bookingId = meta.bookingId;
+
+  if (!bookingId) {
+    console.error('Webhook: Missing bookingId in session metadata');
+    return;
+  }
+
+  const found = await findBookingByBookingId(bookingId);
+
+  if (!found) {
+    console.error(`Webhook: Booking not found: ${bookingId}`);
+    return;
+  }
+
+  // Stripe can deliver events for a booking concurrently, so one at a time
+  // works on it, re-reading the record once it holds the lock.
+  await withLock(`booking:${bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+
+    if (booking.paymentStatus === PAYMENT_STATUS.CANCELLED) {
+      await refundUnseatedCheckout(session, [{ booking, amountMinor: session.amount_total ?? 0 }], 'cancelled');
+      return;
+    }
+
+    if (booking.paymentStatus === PAYMENT_STATUS.EXPIRED) {
+      // Already refunded on an earlier delivery of this event
+      const unseated = booking.paymentReference ? [booking] : await reclaimLapsedSeats([booking]);
+      if (unseated.length > 0) {
+        await refundUnseatedCheckout(session, [{ booking, amountMinor: session.amount_total ?? 0 }], 'full');
+        return;
+      }
+    }
+
+    if (isPaidByOtherCheckout(session, booking)) {
+      await refundDuplicateCheckout(session, [{ booking, amountMinor: session.amount_total ?? 0 }]);
+      return;
+    }
+
+    // The session, not the booking, says how this checkout was paid
+    if (meta.paymentPlan) {
+      await handlePlanCheckoutCompleted(session, booking);
+      return;
+    }
+
+    // Fully processed — nothing to do
+    if (booking.paymentStatus === PAYMENT_STATUS.PAID && booking.webhookTriggered) {
+      console.log(`Webhook: Booking ${bookingId} already complete, skipping`);
+      return;
+    }
+
+    const paymentIntent = session.payment_intent;
+
+    // Mark as paid if not already (idempotent on retries)
+    if (booking.paymentStatus !== PAYMENT_STATUS.PAID) {
+      const paymentMismatch = describePaymentMismatch(session, [booking], { checkAmount: true });
+
+      if (paymentMismatch) {
+        console.error(`Webhook: Payment mismatch on booking ${bookingId}: ${paymentMismatch}`);
+      }
+
+      await updateBooking(booking.id, {
+        paymentStatus: PAYMENT_STATUS.PAID,
+        currency: getBookingCurrency(booking),
+        paymentReference: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? '',
+        paymentMismatch,
+      });
+      console.log(`Webhook: Booking ${bookingId} marked as paid`);
+    }
+
+    redeemPromoCodes([booking], booking.bookingId);
+    await syncOfferingAvailability(booking.workshopOfferingId);
+
+    // Queue the GHL notification; the outbox delivers it and sets
+    // webhookTriggered, so a GHL outage no longer fails the Stripe webhook.
+    // Stripe retries re-enqueue under the same key, which is a no-op.
+    enqueueBookingWebhook({
+      event: BOOKING_WEBHOOK_EVENTS.BOOKING_PAID,
+      booking: {
+        bookingId: booking.bookingId,
+        paymentStatus: PAYMENT_STATUS.PAID,
+        pricePaid: booking.pricePaid,
+      },
+      offering: {
+        id: meta.offeringId || '',
+        name: meta.offeringName || '',
+        subject: meta.offeringSubject || '',
+        workshopDate: meta.offeringDate || '',
+        sessionTime: meta.offeringTime || '',
+        yearGroup: meta.offeringYearGroup || '',
+        zoomLink: meta.offeringZoomLink || '',
+      },
+      parent: {
+        name: meta.customerName || '',
+        email: meta.customerEmail || '',
+        phone: meta.parentPhone || '',
+      },
+      student: {
+        name: meta.studentName || '',
+        email: meta.studentEmail || '',
+      },
+      payment: {
+        stripeSessionId: session.id,
+        stripePaymentIntentId: typeof paymentIntent === 'string' ? paymentIntent : paymentIntent?.id ?? null,
+        amountTotal: session.amount_total,
+        currency: session.currency,
+      },
+    }, booking.id, `${BOOKING_WEBHOOK_EVENTS.BOOKING_PAID}:${booking.bookingId}`);
+
+    console.log(`Webhook: Booking ${bookingId} fully processed`);
+  });
+}
+
+async function handleCheckoutExpired(session: Stripe.Checkout.Session): Promise<void> {
+  if (session.metadata?.orderId) {
+    await handleOrderExpired(session, session.metadata.orderId);
+    return;
+  }
+
+  const bookingId = session.metadata?.bookingId;
+
+  if (!bookingId) {
+    console.error('Webhook: Missing bookingId in session metadata');
+    return;
+  }
+
+  const found = await findBookingByBookingId(bookingId);
+
+  if (!found) {
+    console.error(`Webhook: Booking not found: ${bookingId}`);
+    return;
+  }
+
+  await withLock(`booking:${bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+
+    // A live hold means a newer checkout replaced this one
+    if (booking.paymentStatus === PAYMENT_STATUS.PENDING && !isHoldActive(booking)) {
+      await updateBooking(booking.id, { paymentStatus: PAYMENT_STATUS.EXPIRED });
+      releaseSeatHold(booking.id);
+      releasePromoCodeReservations(getPromoCodeReference(booking));
+      console.log(`Webhook: Booking ${bookingId} marked as expired`);
+    }
+
+    await releaseSeats(booking.workshopOfferingId);
+  });
+}
+
+/**
+ * Refunds on a charge shared by an order's bookings. Cancelling a booking
+ * records its own share of the refund, so a partial refund made elsewhere
+ * can't be attributed and is only logged; a full refund marks every booking
+ * refunded and releases their seats.
+ */
+async function handleOrderChargeRefunded(charge: Stripe.Charge, found: Booking[]): Promise<void> {
+  await withLocks(found.map((booking) => `booking:${booking.bookingId}`), async () => {
+    const bookings = await Promise.all(found.map(async (b) => (await fetchBookingByRecordId(b.id)) ?? b));
+
+    if (!charge.refunded) {
+      const attributedMinor = bookings.reduce(
+        (sum, b) => sum + toMinorUnits(b.amountRefunded, charge.currency),
+        0
+      );
+      if (charge.amount_refunded > attributedMinor) {
+        console.warn(
+          `Webhook: Partial refund on order charge ${charge.id} isn't attributed to a booking; cancel bookings through the API instead`
+        );
+      }
+      return;
+    }
+
+    const releasedOfferings = new Set<string>();
+
+    for (const booking of bookings) {
+      const releasesSeat =
+        booking.paymentStatus !== PAYMENT_STATUS.CANCELLED && booking.paymentStatus !== PAYMENT_STATUS.REFUNDED;
+      const paymentStatus = releasesSeat ? PAYMENT_STATUS.REFUNDED : booking.paymentStatus;
+
+      if (booking.paymentStatus === paymentStatus && booking.amountRefunded === booking.pricePaid) continue;
+
+      await updateBooking(booking.id, { paymentStatus, amountRefunded: booking.pricePaid });
+      console.log(`Webhook: Booking ${booking.bookingId} (order ${booking.orderId}) marked as ${paymentStatus}`);
+
+      if (releasesSeat) {
+        releaseSeatHold(booking.id);
+        releasedOfferings.add(booking.workshopOfferingId);
+      }
+    }
+
+    for (const offeringId of releasedOfferings) {
+      await releaseSeats(offeringId);
+    }
+  });
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge): Promise<void> {
+  const paymentIntentId =
+    typeof charge.payment_intent === 'string' ? charge.payment_intent : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    console.error(`Webhook: Charge ${charge.id} has no payment intent`);
+    return;
+  }
+
+  const planPayment = findPlanPaymentByPaymentIntent(paymentIntentId);
+
+  if (planPayment) {
+    await handlePlanChargeRefunded(charge, planPayment);
+    return;
+  }
+
+  const matches = await findBookingsByPaymentReference(paymentIntentId);
+
+  if (matches.length === 0) {
+    console.error(`Webhook: Booking not found for payment ${paymentIntentId}`);
+    return;
+  }
+
+  if (matches.length > 1) {
+    await handleOrderChargeRefunded(charge, matches);
+    return;
+  }
+
+  const [found] = matches;
+
+  await withLock(`booking:${found.bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+    const amountRefunded = fromMinorUnits(charge.amount_refunded, charge.currency);
+
+    // Cancellations already released the seat and notified GHL; only the
+    // refunded total needs recording.
+    if (booking.paymentStatus === PAYMENT_STATUS.CANCELLED) {
+      if (booking.amountRefunded !== amountRefunded) {
+        await updateBooking(booking.id, { amountRefunded });
+      }
+      return;
+    }
+
+    const paymentStatus = charge.refunded ? PAYMENT_STATUS.REFUNDED : PAYMENT_STATUS.PARTIALLY_REFUNDED;
+
+    if (booking.paymentStatus === paymentStatus && booking.amountRefunded === amountRefunded) {
+      console.log(`Webhook: Refund for booking ${booking.bookingId} already recorded, skipping`);
+      return;
+    }
+
+    await updateBooking(booking.id, { paymentStatus, amountRefunded });
+    console.log(`Webhook: Booking ${booking.bookingId} marked as ${paymentStatus}`);
+
+    // A partial refund keeps the seat; a full refund gives it up
+    if (paymentStatus === PAYMENT_STATUS.REFUNDED) {
+      releaseSeatHold(booking.id);
+      await releaseSeats(booking.workshopOfferingId);
+    }
+  });
+}
+
+/**
+ * A balance or instalment payment. The booking is paid once the plan's
+ * payments cover its price; until then it stays `deposit_paid`, which also
+ * clears `balance_due` after a failed payment is retried successfully.
+ * Returns false for invoices that aren't for a payment plan.
+ */
+async function handleInvoicePaid(invoice: Stripe.Invoice): Promise<boolean> {
+  const bookingId = getInvoiceBookingId(invoice);
+
+  if (!bookingId) return false;
+
+  const found = await findBookingByBookingId(bookingId);
+
+  if (!found) {
+    console.error(`Webhook: Booking not found for invoice ${invoice.id}: ${bookingId}`);
+    return true;
+  }
+
+  const paymentIntent = await getInvoicePaymentIntentId(invoice.id!);
+
+  await withLock(`booking:${bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+
+    recordPlanPayment({ reference: invoice.id!, bookingId, paymentIntent, amountMinor: invoice.amount_paid });
+
+    // The first instalment is settled by checkout.session.completed, which
+    // may arrive after this.
+    if (!SEAT_SECURED_STATUSES.includes(booking.paymentStatus)) {
+      if (booking.paymentStatus !== PAYMENT_STATUS.PENDING) {
+        console.warn(`Webhook: Invoice ${invoice.id} paid for booking ${bookingId} (status: ${booking.paymentStatus})`);
+      }
+      return;
+    }
+
+    const currency = getBookingCurrency(booking);
+    const { received } = sumPlanPayments(listPlanPayments(bookingId), currency);
+    const receivedMinor = toMinorUnits(received, currency);
+    const paymentStatus =
+      receivedMinor >= toMinorUnits(booking.pricePaid, currency) ? PAYMENT_STATUS.PAID : PAYMENT_STATUS.DEPOSIT_PAID;
+
+    if (booking.paymentStatus !== paymentStatus || booking.amountReceived !== received) {
+      await updateBooking(booking.id, { paymentStatus, amountReceived: received });
+      console.log(
+        `Webhook: Booking ${bookingId} received ${fromMinorUnits(invoice.amount_paid, currency)} (${received} so far)`
+      );
+    }
+
+    if (paymentStatus !== PAYMENT_STATUS.PAID) return;
+
+    const paid: Booking = { ...booking, paymentStatus, amountReceived: received };
+    const [offering, student] = await Promise.all([
+      getCachedOfferingById(booking.workshopOfferingId),
+      fetchContactById(booking.studentContactId),
+    ]);
+
+    enqueueBookingWebhook(
+      buildBookingEventPayload(BOOKING_WEBHOOK_EVENTS.BOOKING_PAID, paid, offering, student, {
+        payment: {
+          stripeSessionId: null,
+          stripePaymentIntentId: paymentIntent,
+          amountTotal: invoice.amount_paid,
+          currency: invoice.currency,
+        },
+        paymentPlan: buildPlanSummary(paid, receivedMinor),
+      }),
+      booking.id,
+      `${BOOKING_WEBHOOK_EVENTS.BOOKING_PAID}:${bookingId}`
+    );
+  });
+
+  return true;
+}
+
+/**
+ * A balance or instalment that couldn't be charged. The seat is kept while
+ * Stripe retries; GHL is told once per invoice so the parent can be sent
+ * Stripe's page to pay it by hand.
+ */
+async function handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<boolean> {
+  const bookingId = getInvoiceBookingId(invoice);
+
+  if (!bookingId) return false;
+
+  const found = await findBookingByBookingId(bookingId);
+
+  if (!found) {
+    console.error(`Webhook: Booking not found for invoice ${invoice.id}: ${bookingId}`);
+    return true;
+  }
+
+  await withLock(`booking:${bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+
+    if (
+      booking.paymentStatus !== PAYMENT_STATUS.DEPOSIT_PAID &&
+      booking.paymentStatus !== PAYMENT_STATUS.BALANCE_DUE
+    ) {
+      console.warn(`Webhook: Invoice ${invoice.id} failed for booking ${bookingId} (status: ${booking.paymentStatus})`);
+      return;
+    }
+
+    if (booking.paymentStatus !== PAYMENT_STATUS.BALANCE_DUE) {
+      await updateBooking(booking.id, { paymentStatus: PAYMENT_STATUS.BALANCE_DUE });
+      console.log(`Webhook: Booking ${bookingId} marked as balance due`);
+    }
+
+    const due: Booking = { ...booking, paymentStatus: PAYMENT_STATUS.BALANCE_DUE };
+    const [offering, student] = await Promise.all([
+      getCachedOfferingById(booking.workshopOfferingId),
+      fetchContactById(booking.studentContactId),
+    ]);
+
+    enqueueBookingWebhook(
+      buildBookingEventPayload(BOOKING_WEBHOOK_EVENTS.BALANCE_DUE, due, offering, student, {
+        paymentPlan: {
+          ...buildPlanSummary(due, toMinorUnits(booking.amountReceived, getBookingCurrency(booking))),
+          ...(invoice.hosted_invoice_url && { payUrl: invoice.hosted_invoice_url }),
+        },
+      }),
+      booking.id,
+      `${BOOKING_WEBHOOK_EVENTS.BALANCE_DUE}:${bookingId}:${invoice.id}`
+    );
+  });
+
+  return true;
+}
+
+/**
+ * Refunds on a payment plan's charges are tracked per payment, so the
+ * booking's refunded total covers every instalment. Once everything paid
+ * has been refunded, the rest of the plan is stopped and the seat released.
+ */
+async function handlePlanChargeRefunded(charge: Stripe.Charge, payment: PlanPayment): Promise<void> {
+  const found = await findBookingByBookingId(payment.bookingId);
+
+  if (!found) {
+    console.error(`Webhook: Booking not found for plan payment ${payment.reference}: ${payment.bookingId}`);
+    return;
+  }
+
+  await withLock(`booking:${found.bookingId}`, async () => {
+    const booking = (await fetchBookingByRecordId(found.id)) ?? found;
+
+    recordPlanRefund(payment.paymentIntent!, charge.amount_refunded);
+    const currency = getBookingCurrency(booking);
+    const { received, refunded } = sumPlanPayments(listPlanPayments(booking.bookingId), currency);
+
+    // Cancellations already stopped the plan and released the seat
+    if (
+      !SEAT_SECURED_STATUSES.includes(booking.paymentStatus) &&
+      booking.paymentStatus !== PAYMENT_STATUS.PARTIALLY_REFUNDED
+    ) {
+      if (booking.amountRefunded !== refunded) {
+        await updateBooking(booking.id, { amountRefunded: refunded });
+      }
+      return;
+    }
+
+    const fullyRefunded = toMinorUnits(refunded, currency) >= toMinorUnits(received, currency);
+    // A plan still being paid keeps its status through a partial refund
+    const paymentStatus = fullyRefunded
+      ? PAYMENT_STATUS.REFUNDED
+      : booking.paymentStatus === PAYMENT_STATUS.PAID
+        ? PAYMENT_STATUS.PARTIALLY_REFUNDED
+        : booking.paymentStatus;
+
+    if (booking.paymentStatus === paymentStatus && booking.amountRefunded === refunded) {
+      console.log(`Webhook: Refund for booking ${booking.bookingId} already recorded, skipping`);
+      return;
+    }
+
+    if (fullyRefunded) {
+      await stopPaymentPlan(booking);
+    }
+
+    await updateBooking(booking.id, { paymentStatus, amountRefunded: refunded });
+    console.log(`Webhook: Booking ${booking.bookingId} marked as ${paymentStatus}`);
+
+    if (fullyRefunded) {
+      releaseSeatHold(booking.id);
+      await releaseSeats(booking.workshopOfferingId);
+    }
+  });
+}
+
+/** Returns false for event types this server doesn't act on */
+async function dispatchStripeEvent(event: Stripe.Event): Promise<boolean> {
+  switch (event.type) {
+    case 'checkout.session.completed':
+      await handleCheckoutCompleted(event.data.object);
+      return true;
+
+    case 'checkout.session.expired':
+      await handleCheckoutExpired(event.data.object);
+      return true;
+
+    case 'charge.refunded':
+      await handleChargeRefunded(event.data.object);
+      return true;
+
+    case 'invoice.paid':
+      return handleInvoicePaid(event.data.object);
+
+    case 'invoice.payment_failed':
+      return handleInvoicePaymentFailed(event.data.object);
+
+    default:
+      console.log(`Webhook: Unhandled event type: ${event.type}`);
+      return false;
+  }
+}
+
+/**
+ * Processes a verified Stripe event at most once. Every attempt and its
+ * outcome is written to the event log; deliveries of an event that already
+ * succeeded are skipped, while failed events are processed again whether
+ * Stripe retries them or an admin replays them.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<StripeEventLogEntry | null> {
+  return withLock(`stripe-event:${event.id}`, async () => {
+    const existing = getStripeEvent(event.id);
+
+    if (
+      existing &&
+      (existing.status === STRIPE_EVENT_STATUS.PROCESSED || existing.status === STRIPE_EVENT_STATUS.IGNORED)
+    ) {
+      console.log(`Webhook: Event ${event.id} already ${existing.status}, skipping`);
+      return existing;
+    }
+
+    startStripeEvent(event);
+
+    try {
+      const handled = await dispatchStripeEvent(event);
+      return finishStripeEvent(
+        event.id,
+        handled ? STRIPE_EVENT_STATUS.PROCESSED : STRIPE_EVENT_STATUS.IGNORED
+      );
+    } catch (error) {
+      finishStripeEvent(
+        event.id,
+        STRIPE_EVENT_STATUS.FAILED,
+        error instanceof Error ? error.message : String(error)
+      );
+      throw error;
+    }
+  });
+}
+
+export async function handleStripeWebhook(request: Request): Promise<Response> {
+  const signature = request.headers.get('stripe-signature');
+
+  if (!signature) {
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: STRIPE_ERROR_CODES.WEBHOOK_SIGNATURE_MISSING,
+          message: 'Missing Stripe signature',
+        },
+      },
+      400
+    );
+  }
+
+  let event;
+
+  try {
+    const rawBody = await request.text();
+
+    event = await stripe.webhooks.constructEventAsync(
+      rawBody,
+      signature,
+      config.stripe.webhookSecret
+    );
+  } catch (error: any) {
+    console.error('Webhook signature verification failed:', error.message);
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: STRIPE_ERROR_CODES.WEBHOOK_SIGNATURE_INVALID,
+          message: 'Invalid webhook signature',
+        },
+      },
+      400
+    );
+  }
+
+  try {
+    await processStripeEvent(event);
+    return jsonResponse({ success: true });
+  } catch (error: any) {
+    console.error('Webhook processing error:', error);
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: STRIPE_ERROR_CODES.WEBHOOK_PROCESSING_FAILED,
+          message: 'Webhook processing failed',
+        },
+      },
+      500
+    );
+  }
+}
+
+/**
+ * Spreads a cancellation refund across a plan's payments, newest first.
+ * Each refund is recorded as it's made, so a retry after a failure carries
+ * on from where it stopped.
+ */
+async function refundPlanPayments(
+  booking: Booking,
+  payments: PlanPayment[],
+  refundMinor: number,
+  reason: string
+): Promise<void> {
+  let remainingMinor = refundMinor;
+
+  for (const payment of [...payments].reverse()) {
+    const refundableMinor = payment.amountMinor - payment.refundedMinor;
+
+    if (remainingMinor <= 0) break;
+    if (refundableMinor <= 0) continue;
+
+    // An instalment's payment intent is only known once its invoice.paid arrives
+    const paymentIntent = payment.paymentIntent ?? (await getInvoicePaymentIntentId(payment.reference));
+
+    if (!paymentIntent) {
+      throw new CheckoutError(
+        STRIPE_ERROR_CODES.REFUND_FAILED,
+        `Payment ${payment.reference} has no payment intent to refund`,
+        409
+      );
+    }
+
+    const amount = Math.min(remainingMinor, refundableMinor);
+
+    await stripe.refunds.create(
+      {
+        payment_intent: paymentIntent,
+        amount,
+        reason: 'requested_by_customer',
+        metadata: { bookingId: booking.bookingId, reason },
+      },
+      { idempotencyKey: `cancel-${booking.bookingId}-${payment.reference}-${payment.refundedMinor}` }
+    );
+
+    recordPlanPayment({ ...payment, paymentIntent });
+    recordPlanRefund(paymentIntent, payment.refundedMinor + amount);
+    remainingMinor -= amount;
+  }
+}
+
+export async function handleCancelBooking(request: Request, bookingId: string): Promise<Response> {
+  try {
+    const rawBody = await request.text();
+
+    let body: unknown = {};
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return jsonResponse(
+          {
+            success: false,
+            error: { code: ERROR_CODES.VALIDATION_ERROR, message: 'Request body must be JSON' },
+          },
+          400
+        );
+      }
+    }
+
+    const result = cancelBookingSchema.safeParse(body);
+
+    if (!result.success) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: result.error.errors[0]?.message || 'Invalid request',
+          },
+        },
+        400
+      );
+    }
+
+    // Cancelling and a refund webhook for the same booking must not interleave
+    return await withLock(`booking:${bookingId}`, async () => {
+      const booking = await findBookingByBookingId(bookingId);
+
+      if (!booking) {
+        throw new CheckoutError(STRIPE_ERROR_CODES.BOOKING_NOT_FOUND, 'Booking not found', 404);
+      }
+
+      const cancellable: string[] = [
+        PAYMENT_STATUS.PENDING,
+        PAYMENT_STATUS.WAITLISTED,
+        PAYMENT_STATUS.PAID,
+        PAYMENT_STATUS.DEPOSIT_PAID,
+        PAYMENT_STATUS.BALANCE_DUE,
+        PAYMENT_STATUS.PARTIALLY_REFUNDED,
+      ];
+
+      if (!cancellable.includes(booking.paymentStatus)) {
+        throw new CheckoutError(
+          STRIPE_ERROR_CODES.BOOKING_NOT_CANCELLABLE,
+          `Booking cannot be cancelled (status: ${booking.paymentStatus || 'unknown'})`,
+          409
+        );
+      }
+
+      const { reason = '' } = result.data;
+      const hasPaid =
+        SEAT_SECURED_STATUSES.includes(booking.paymentStatus) ||
+        booking.paymentStatus === PAYMENT_STATUS.PARTIALLY_REFUNDED;
+      const refundPercent = hasPaid ? result.data.refundPercent ?? getPolicyRefundPercent(booking.workshopDate) : 0;
+
+      // An unpaid booking may still have a checkout open in the parent's browser.
+      // Its promo code use goes back too, unless the rest of its order may still be paid.
+      if (booking.paymentStatus === PAYMENT_STATUS.PENDING) {
+        await expireOpenCheckoutSessions(booking);
+        if (!booking.orderId) releasePromoCodeReservations(booking.bookingId);
+      }
+
+      // Nothing more is collected on a cancelled plan
+      const planPayments = isOnPaymentPlan(booking) ? listPlanPayments(booking.bookingId) : [];
+      if (isOnPaymentPlan(booking)) {
+        await stopPaymentPlan(booking);
+      }
+
+      // The percentage applies to the original price, or to what a payment
+      // plan has collected so far; anything already refunded (e.g. a partial
+      // refund from the dashboard) counts towards it.
+      const currency = getBookingCurrency(booking);
+      const planTotals = sumPlanPayments(planPayments, currency);
+      const paidMinor = toMinorUnits(planPayments.length ? planTotals.received : booking.pricePaid, currency);
+      const alreadyRefundedMinor = toMinorUnits(
+        planPayments.length ? planTotals.refunded : booking.amountRefunded,
+        currency
+      );
+      const refundMinor = Math.min(
+        Math.max(Math.round((paidMinor * refundPercent) / 100) - alreadyRefundedMinor, 0),
+        paidMinor - alreadyRefundedMinor
+      );
+
+      if (refundMinor > 0 && planPayments.length) {
+        await refundPlanPayments(booking, planPayments, refundMinor, reason);
+      } else if (refundMinor > 0) {
+        if (!booking.paymentReference) {
+          throw new CheckoutError(
+            STRIPE_ERROR_CODES.REFUND_FAILED,
+            'Booking has no payment reference to refund',
+            409
+          );
+        }
+
+        await stripe.refunds.create(
+          {
+            payment_intent: booking.paymentReference,
+            amount: refundMinor,
+            reason: 'requested_by_customer',
+            metadata: { bookingId: booking.bookingId, reason },
+          },
+          { idempotencyKey: `cancel-${booking.bookingId}-${alreadyRefundedMinor}` }
+        );
+      }
+
+      const cancelled: Booking = {
+        ...booking,
+        paymentStatus: PAYMENT_STATUS.CANCELLED,
+        amountRefunded: fromMinorUnits(alreadyRefundedMinor + refundMinor, currency),
+        expiresAt: '',
+      };
+
+      await updateBooking(cancelled.id, {
+        paymentStatus: cancelled.paymentStatus,
+        amountRefunded: cancelled.amountRefunded,
+        expiresAt: cancelled.expiresAt,
+      });
+      console.log(`Booking ${booking.bookingId} cancelled (${refundPercent}% refund policy, refunded ${cancelled.amountRefunded})`);
+
+      if (booking.paymentStatus !== PAYMENT_STATUS.WAITLISTED) {
+        releaseSeatHold(booking.id);
+        await releaseSeats(booking.workshopOfferingId);
+      }
+
+      // The cancellation and refund have already happened, so a failed
+      // notification is logged rather than reported as a failed cancellation.
+      try {
+        const [offering, student] = await Promise.all([
+          getCachedOfferingById(booking.workshopOfferingId),
+          fetchContactById(booking.studentContactId),
+        ]);
+
+        enqueueBookingWebhook(
+          buildBookingEventPayload(BOOKING_WEBHOOK_EVENTS.BOOKING_CANCELLED, cancelled, offering, student, {
+            refund: {
+              amount: fromMinorUnits(refundMinor, currency),
+              currency,
+              reason,
+            },
+          }),
+          cancelled.id,
+          `${BOOKING_WEBHOOK_EVENTS.BOOKING_CANCELLED}:${booking.bookingId}`
+        );
+      } catch (error) {
+        console.error(`Failed to queue GHL cancellation notice for booking ${booking.bookingId}:`, error);
+      }
+
+      return jsonResponse<CancelBookingResponse>({
+        success: true,
+        data: {
+          bookingId: booking.bookingId,
+          paymentStatus: cancelled.paymentStatus,
+          refundPercent,
+          amountRefunded: cancelled.amountRefunded,
+        },
+      });
+    });
+  } catch (error: any) {
+    if (error instanceof CheckoutError) {
+      return jsonResponse(
+        {
+          success: false,
+          error: {
+            code: error.code,
+            message: error.message,
+          },
+        },
+        error.status
+      );
+    }
+
+    console.error('Booking cancellation error:', error);
+
+    return jsonResponse(
+      {
+        success: false,
+        error: {
+          code: STRIPE_ERROR_CODES.REFUND_FAILED,
+          message: 'Failed to cancel booking',
         },
       },
       500
@@ -0,0 +1,31 @@
+import { afterAll } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+// Preloaded by `bun test` (see bunfig.toml). Test files share one module
+// registry, so config.ts reads the environment once for all of them.
+const dataDir = mkdtempSync(join(tmpdir(), 'workshop-booking-test-'));
+
+Object.assign(process.env, {
+  GHL_ACCESS_TOKEN: 'test-token',
+  GHL_LOCATION_ID: 'test-location',
+  WORKSHOP_OFFERINGS_SCHEMA: 'custom_objects.workshop_offerings',
+  BOOKINGS_SCHEMA: 'custom_objects.bookings',
+  CHECKOUT_BASE_URL: 'https://example.com/checkout',
+  CHECKOUT_TOKEN_SECRET: 'test-checkout-token-secret',
+  STRIPE_SECRET_KEY: 'sk_test_123',
+  STRIPE_PUBLISHABLE_KEY: 'pk_test_123',
+  STRIPE_WEBHOOK_SECRET: 'whsec_123',
+  CHECKOUT_SUCCESS_URL: 'https://example.com/booking-confirmed',
+  DATABASE_PATH: join(dataDir, 'workshop.db'),
+  EARLY_BIRD_DAYS: '28',
+  EARLY_BIRD_PERCENT: '10',
+  SIBLING_DISCOUNT_PERCENT: '15',
+});
+
+afterAll(async () => {
+  const { closeDatabase } = await import('./db');
+  closeDatabase();
+  rmSync(dataDir, { recursive: true, force: true });
+});
@@ -17,9 +17,57 @@ export interface WorkshopOffering {
   sessionTime: string;
   availability: string;
   price: number;
+  /** Lower-case ISO code; offerings without one are priced in `STRIPE_CURRENCY` */
+  currency: string;
+  /** Generated from the price and currency, e.g. `£45.00` */
   priceLabel: string;
   zoomLink: string;
   stripePriceId?: string;
+  /** Maximum number of seats; 0 means the offering is not capacity-limited */
+  capacity: number;
+  /** Deposit taken up front on the `deposit` payment plan; 0 means the plan isn't offered */
+  depositAmount: number;
+  /** Monthly payments on the `instalments` plan; below 2 means the plan isn't offered */
+  instalments: number;
+}
+
+export interface OfferingWithSeats extends WorkshopOffering {
+  /** Seats left after paid and pending bookings, or null when capacity is unlimited */
+  seatsRemaining: number | null;
+}
+
+export type OfferingInput = Omit<WorkshopOffering, 'id'>;
+
+export interface YearGroup {
+  id: string;
+  label: string;
+}
+
+export interface YearGroupListResponse {
+  yearGroups: YearGroup[];
+}
+
+export interface OfferingFacets {
+  yearGroup: string;
+  subjects: string[];
+  intakes: string[];
+}
+
+export interface OfferingFacetsResponse {
+  yearGroups: OfferingFacets[];
+}
+
+export interface OfferingsCacheInvalidationResponse {
+  /** Null when the whole offerings cache was cleared */
+  offeringId: string | null;
+  yearGroup: string | null;
+}
+
+export interface DeleteOfferingResponse {
+  id: string;
+  /** False when the offering had bookings and was deactivated instead */
+  deleted: boolean;
+  availability: string;
 }
 
 export interface Contact {
@@ -73,12 +121,78 @@ export interface Booking {
   paymentReference: string;
   paymentStatus: string;
   webhookTriggered: boolean;
+  // Seat hold (ISO timestamp) for pending bookings
+  expiresAt: string;
+  // Waitlist (0 when the booking never joined a waitlist)
+  waitlistPosition: number;
+  // Refunds (total refunded so far, in the same units as pricePaid)
+  amountRefunded: number;
+  // Order the booking was made and paid in ('' for single bookings)
+  orderId: string;
+  // Pricing: the discount rule applied ('' for none) and offeringPrice - pricePaid
+  pricingRule: string;
+  promoCode: string;
+  discountAmount: number;
+  // Package the booking was sold as part of ('' otherwise)
+  packageId: string;
+  // Payment plan ('' when paid in full), what has been collected so far, and
+  // the Stripe balance invoice or instalment subscription still collecting
+  paymentPlan: string;
+  amountReceived: number;
+  paymentPlanReference: string;
+  // What Stripe charged when it didn't match the booking's price or currency ('' when it did)
+  paymentMismatch: string;
 }
 
 export interface BookingRequest {
-  offeringId: string;
+  /** One workshop; use `offeringIds` to book several in one order */
+  offeringId?: string;
+  offeringIds?: string[];
+  /** Every offering in a package, at the package price */
+  packageId?: string;
   parent: ContactInput;
-  student: ContactInput;
+  /** One student; use `students` to book siblings together in one order */
+  student?: ContactInput;
+  students?: ContactInput[];
+  /** Only for one student booking one offering */
+  paymentPlan?: PaymentPlan;
+}
+
+export interface WaitlistResponse {
+  waitlistId: string;
+  offeringId: string;
+  paymentStatus: string;
+  /** 1-based place in the queue, or null once the entry has left the waitlist */
+  position: number | null;
+}
+
+export interface WaitlistJoinResponse extends WaitlistResponse {
+  /** Proves access when looking up the entry's position later */
+  waitlistToken: string;
+}
+
+export interface BookingStatusResponse {
+  bookingId: string;
+  paymentStatus: string;
+  /** True once Stripe has taken payment, even if the webhook hasn't updated the booking yet */
+  paymentReceived: boolean;
+  offering: {
+    id: string;
+    name: string;
+    subject: string;
+    workshopDate: string;
+    sessionTime: string;
+    yearGroup: string;
+  };
+  studentName: string;
+  pricePaid: number;
+  currency: string;
+  /** Null when paid in full */
+  paymentPlan: PaymentPlan | null;
+  /** Collected so far; equals pricePaid once a payment plan is complete */
+  amountReceived: number;
+  /** Only revealed once the seat is paid for, or secured by a payment plan */
+  zoomLink: string | null;
 }
 
 export interface BookingResponse {
@@ -86,7 +200,56 @@ export interface BookingResponse {
   recordId: string;
   parentContactId: string;
   studentContactId: string;
+  offeringPrice: number;
+  pricePaid: number;
+  pricingRule: PricingRule | null;
+  currency: string;
+  /** What is paid when, with the first payment due at checkout */
+  paymentSchedule: PaymentSchedule;
+  checkoutUrl: string;
+  /** When the seat hold, and with it the checkout link, expires */
+  expiresAt: string;
+}
+
+/** A student and offering left out of an order because the student is already booked on it */
+export interface OrderDuplicate {
+  studentContactId: string;
+  studentName: string;
+  offeringId: string;
+  bookingId: string;
+  paymentStatus: string;
+}
+
+export interface OrderResponse {
+  orderId: string;
+  /** Set when the order books a package */
+  packageId: string | null;
+  parentContactId: string;
+  /** One per student, in request order */
+  studentContactIds: string[];
+  bookings: Array<{
+    bookingId: string;
+    recordId: string;
+    offeringId: string;
+    studentContactId: string;
+    studentName: string;
+    offeringPrice: number;
+    pricePaid: number;
+    pricingRule: PricingRule | null;
+  }>;
+  duplicates: OrderDuplicate[];
+  total: number;
+  currency: string;
   checkoutUrl: string;
+  /** When the seat holds, and with them the checkout link, expire */
+  expiresAt: string;
+}
+
+export interface OrderStatusResponse {
+  orderId: string;
+  /** True once Stripe has taken payment, even if the webhook hasn't updated the bookings yet */
+  paymentReceived: boolean;
+  bookings: BookingStatusResponse[];
 }
 
 export interface GHLRecordsResponse {
@@ -141,9 +304,13 @@ export const OFFERING_FIELDS = {
   sessionTime: 'session_time',
   availability: 'availability',
   price: 'price',
+  currency: 'currency',
   priceLabel: 'price_label',
   zoomLink: 'zoom_link',
   stripePriceId: 'stripe_price_id',
+  capacity: 'capacity',
+  depositAmount: 'deposit_amount',
+  instalments: 'instalments',
 } as const;
 
 export const BOOKING_FIELDS = {
@@ -173,6 +340,26 @@ export const BOOKING_FIELDS = {
   paymentReference: 'payment_reference',
   paymentStatus: 'payment_status',
   webhookTriggered: 'webhook_triggered',
+  // Seat hold
+  expiresAt: 'expires_at',
+  // Waitlist
+  waitlistPosition: 'waitlist_position',
+  // Refunds
+  amountRefunded: 'amount_refunded',
+  // Orders
+  orderId: 'order_id',
+  // Pricing
+  pricingRule: 'pricing_rule',
+  promoCode: 'promo_code',
+  discountAmount: 'discount_amount',
+  // Packages
+  packageId: 'package_id',
+  // Payment plans
+  paymentPlan: 'payment_plan',
+  amountReceived: 'amount_received',
+  paymentPlanReference: 'payment_plan_reference',
+  // Payment checks
+  paymentMismatch: 'payment_mismatch',
 } as const;
 
 export const CONTACT_CUSTOM_FIELDS = {
@@ -187,6 +374,48 @@ export const AVAILABILITY = {
   INACTIVE: 'inactive',
 } as const;
 
+export const OFFERING_SORT = {
+  DATE: 'date',
+  PRICE: 'price',
+  SUBJECT: 'subject',
+} as const;
+
+export type OfferingSort = (typeof OFFERING_SORT)[keyof typeof OFFERING_SORT];
+
+export const API_SCOPES = {
+  BOOKINGS_READ: 'bookings:read',
+  BOOKINGS_WRITE: 'bookings:write',
+  OFFERINGS_WRITE: 'offerings:write',
+  REFUNDS_WRITE: 'refunds:write',
+  EVENTS_READ: 'events:read',
+  EVENTS_WRITE: 'events:write',
+  PRICING_READ: 'pricing:read',
+  PRICING_WRITE: 'pricing:write',
+} as const;
+
+export type ApiScope = (typeof API_SCOPES)[keyof typeof API_SCOPES];
+
+export const PAYMENT_STATUS = {
+  PENDING: 'pending',
+  PAID: 'paid',
+  EXPIRED: 'expired',
+  WAITLISTED: 'waitlisted',
+  REFUNDED: 'refunded',
+  PARTIALLY_REFUNDED: 'partially_refunded',
+  CANCELLED: 'cancelled',
+  /** On a payment plan, with the rest still to be collected */
+  DEPOSIT_PAID: 'deposit_paid',
+  /** On a payment plan whose latest payment failed; Stripe keeps retrying it */
+  BALANCE_DUE: 'balance_due',
+} as const;
+
+/** Statuses that hold a seat for good, whether paid in full or on a payment plan */
+export const SEAT_SECURED_STATUSES: readonly string[] = [
+  PAYMENT_STATUS.PAID,
+  PAYMENT_STATUS.DEPOSIT_PAID,
+  PAYMENT_STATUS.BALANCE_DUE,
+];
+
 export const ERROR_CODES = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   OFFERING_NOT_FOUND: 'OFFERING_NOT_FOUND',
@@ -195,6 +424,29 @@ export const ERROR_CODES = {
   DUPLICATE_BOOKING: 'DUPLICATE_BOOKING',
   CREATE_ERROR: 'CREATE_ERROR',
   FETCH_ERROR: 'FETCH_ERROR',
+  WAITLIST_NOT_REQUIRED: 'WAITLIST_NOT_REQUIRED',
+  WAITLIST_ENTRY_NOT_FOUND: 'WAITLIST_ENTRY_NOT_FOUND',
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  FORBIDDEN: 'FORBIDDEN',
+  BOOKING_NOT_FOUND: 'BOOKING_NOT_FOUND',
+  UPDATE_ERROR: 'UPDATE_ERROR',
+  DELETE_ERROR: 'DELETE_ERROR',
+  IDEMPOTENCY_KEY_CONFLICT: 'IDEMPOTENCY_KEY_CONFLICT',
+  IDEMPOTENCY_KEY_IN_USE: 'IDEMPOTENCY_KEY_IN_USE',
+  EVENT_NOT_FOUND: 'EVENT_NOT_FOUND',
+  EVENT_NOT_REPLAYABLE: 'EVENT_NOT_REPLAYABLE',
+  EVENT_REPLAY_FAILED: 'EVENT_REPLAY_FAILED',
+  OUTBOX_ITEM_NOT_FOUND: 'OUTBOX_ITEM_NOT_FOUND',
+  OUTBOX_ITEM_NOT_RETRYABLE: 'OUTBOX_ITEM_NOT_RETRYABLE',
+  UPSTREAM_UNAVAILABLE: 'UPSTREAM_UNAVAILABLE',
+  WEBHOOK_SIGNATURE_INVALID: 'WEBHOOK_SIGNATURE_INVALID',
+  ORDER_NOT_FOUND: 'ORDER_NOT_FOUND',
+  PROMO_CODE_INVALID: 'PROMO_CODE_INVALID',
+  PROMO_CODE_NOT_FOUND: 'PROMO_CODE_NOT_FOUND',
+  PROMO_CODE_EXISTS: 'PROMO_CODE_EXISTS',
+  PACKAGE_NOT_FOUND: 'PACKAGE_NOT_FOUND',
+  PAYMENT_PLAN_UNAVAILABLE: 'PAYMENT_PLAN_UNAVAILABLE',
+  CURRENCY_MISMATCH: 'CURRENCY_MISMATCH',
 } as const;
 
 export const STRIPE_ERROR_CODES = {
@@ -205,23 +457,81 @@ export const STRIPE_ERROR_CODES = {
   WEBHOOK_SIGNATURE_INVALID: 'WEBHOOK_SIGNATURE_INVALID',
   WEBHOOK_PROCESSING_FAILED: 'WEBHOOK_PROCESSING_FAILED',
   BOOKING_NOT_FOUND: 'BOOKING_NOT_FOUND',
+  BOOKING_NOT_PAYABLE: 'BOOKING_NOT_PAYABLE',
+  OFFERING_NOT_FOUND: 'OFFERING_NOT_FOUND',
+  PRICE_MISMATCH: 'PRICE_MISMATCH',
+  HOLD_EXPIRED: 'HOLD_EXPIRED',
+  BOOKING_NOT_CANCELLABLE: 'BOOKING_NOT_CANCELLABLE',
+  REFUND_FAILED: 'REFUND_FAILED',
+  CHECKOUT_TOKEN_INVALID: 'CHECKOUT_TOKEN_INVALID',
+  CHECKOUT_TOKEN_EXPIRED: 'CHECKOUT_TOKEN_EXPIRED',
 } as const;
 
 export interface CreateCheckoutSessionRequest {
+  token: string;
+}
+
+export interface CancelBookingRequest {
+  reason?: string;
+  refundPercent?: number;
+}
+
+export interface CancelBookingResponse {
   bookingId: string;
-  customerEmail: string;
-  customerName: string;
-  priceId?: string;
-  amount?: number;
-  description?: string;
+  paymentStatus: string;
+  refundPercent: number;
+  amountRefunded: number;
 }
 
 export interface CheckoutSessionResponse {
   clientSecret: string;
   publishableKey: string;
+  /** Display data for the checkout page's booking summary */
+  summary: {
+    bookingId: string;
+    /** Set when the checkout pays for several bookings; the other fields then describe the first */
+    orderId: string | null;
+    offeringName: string;
+    subject: string;
+    workshopDate: string;
+    sessionTime: string;
+    studentName: string;
+    parentEmail: string;
+    /** Total for every booking being paid for now */
+    amount: number;
+    currency: string;
+    items: CheckoutSummaryItem[];
+    /** Set when the booking is on a payment plan; `amount` is then its first payment */
+    paymentSchedule: PaymentSchedule | null;
+  };
+}
+
+export interface CheckoutSummaryItem {
+  bookingId: string;
+  offeringName: string;
+  subject: string;
+  workshopDate: string;
+  sessionTime: string;
+  studentName: string;
+  amount: number;
 }
 
+export const BOOKING_WEBHOOK_EVENTS = {
+  BOOKING_PAID: 'booking.paid',
+  WAITLIST_PROMOTED: 'waitlist.promoted',
+  BOOKING_CANCELLED: 'booking.cancelled',
+  /** Sent instead of `booking.paid` when several bookings are paid in one checkout */
+  ORDER_PAID: 'order.paid',
+  /** A payment plan's first payment; `booking.paid` follows once the rest is collected */
+  DEPOSIT_PAID: 'booking.deposit_paid',
+  /** A payment plan's balance or instalment failed */
+  BALANCE_DUE: 'booking.balance_due',
+} as const;
+
+export type BookingWebhookEvent = (typeof BOOKING_WEBHOOK_EVENTS)[keyof typeof BOOKING_WEBHOOK_EVENTS];
+
 export interface BookingWebhookPayload {
+  event: Exclude<BookingWebhookEvent, typeof BOOKING_WEBHOOK_EVENTS.ORDER_PAID>;
   booking: {
     bookingId: string;
     paymentStatus: string;
@@ -246,9 +556,231 @@ export interface BookingWebhookPayload {
     email: string;
   };
   payment: {
-    stripeSessionId: string;
+    /** Null for payment plan instalments and balances, which are collected by invoice */
+    stripeSessionId: string | null;
     stripePaymentIntentId: string | null;
     amountTotal: number | null;
     currency: string | null;
+  } | null;
+  /** Present when the booking still needs paying, e.g. a promoted waitlist entry */
+  checkout?: {
+    url: string;
+    expiresAt: string;
+  };
+  /** Present on cancellations */
+  refund?: {
+    amount: number;
+    currency: string;
+    reason: string;
+  };
+  /** Present for bookings on a payment plan */
+  paymentPlan?: {
+    plan: PaymentPlan;
+    amountReceived: number;
+    balance: number;
+    /** Stripe's page for paying a failed balance or instalment by hand */
+    payUrl?: string;
+  };
+}
+
+/** One GHL notification for every booking paid in a single checkout */
+export interface OrderWebhookPayload {
+  event: typeof BOOKING_WEBHOOK_EVENTS.ORDER_PAID;
+  order: {
+    orderId: string;
+    packageId: string | null;
+    total: number;
+    currency: string;
+    bookings: Array<{
+      bookingId: string;
+      /** GHL record ID, used to flag the booking once the notification is delivered */
+      recordId: string;
+      paymentStatus: string;
+      pricePaid: number;
+      offering: BookingWebhookPayload['offering'];
+      student: BookingWebhookPayload['student'];
+    }>;
+  };
+  parent: BookingWebhookPayload['parent'];
+  payment: NonNullable<BookingWebhookPayload['payment']>;
+}
+
+export type GhlWebhookPayload = BookingWebhookPayload | OrderWebhookPayload;
+
+export const STRIPE_EVENT_STATUS = {
+  PROCESSING: 'processing',
+  PROCESSED: 'processed',
+  /** Verified but of a type we don't act on */
+  IGNORED: 'ignored',
+  FAILED: 'failed',
+} as const;
+
+export type StripeEventStatus = (typeof STRIPE_EVENT_STATUS)[keyof typeof STRIPE_EVENT_STATUS];
+
+export interface StripeEventLogEntry {
+  id: string;
+  type: string;
+  status: StripeEventStatus;
+  attempts: number;
+  error: string | null;
+  receivedAt: string;
+  processedAt: string | null;
+}
+
+export interface StripeEventListResponse {
+  events: StripeEventLogEntry[];
+}
+
+export const OUTBOX_STATUS = {
+  PENDING: 'pending',
+  DELIVERED: 'delivered',
+  /** Gave up after OUTBOX_MAX_ATTEMPTS; only retried by an admin */
+  DEAD: 'dead',
+} as const;
+
+export type OutboxStatus = (typeof OUTBOX_STATUS)[keyof typeof OUTBOX_STATUS];
+
+export interface OutboxItem {
+  id: number;
+  /** Booking ID, or the order ID for `order.paid` */
+  bookingId: string;
+  event: string;
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+export interface OutboxListResponse {
+  items: OutboxItem[];
+}
+
+export const CIRCUIT_STATE = {
+  CLOSED: 'closed',
+  OPEN: 'open',
+  HALF_OPEN: 'half_open',
+} as const;
+
+export interface CircuitBreakerStatus {
+  state: (typeof CIRCUIT_STATE)[keyof typeof CIRCUIT_STATE];
+  consecutiveFailures: number;
+  openedAt: string | null;
+}
+
+export interface HealthResponse {
+  status: 'ok' | 'degraded';
+  timestamp: string;
+  upstream: {
+    ghl: CircuitBreakerStatus;
   };
 }
+
+export const PRICING_RULE = {
+  PROMO_CODE: 'promo_code',
+  EARLY_BIRD: 'early_bird',
+  SIBLING: 'sibling',
+  /** The booking's share of a package price */
+  PACKAGE: 'package',
+} as const;
+
+export type PricingRule = (typeof PRICING_RULE)[keyof typeof PRICING_RULE];
+
+export const PROMO_CODE_TYPE = {
+  PERCENT: 'percent',
+  FIXED: 'fixed',
+} as const;
+
+export type PromoCodeType = (typeof PROMO_CODE_TYPE)[keyof typeof PROMO_CODE_TYPE];
+
+export interface PromoCode {
+  /** Stored upper-cased; lookups ignore case */
+  code: string;
+  type: PromoCodeType;
+  /** Percentage off, or a fixed amount off each booking in the offering's currency */
+  amount: number;
+  /** Paid orders or bookings the code can be used on, or null for no limit */
+  maxUses: number | null;
+  uses: number;
+  /** Uses held by pending bookings until they are paid or their seat hold lapses */
+  reserved: number;
+  expiresAt: string | null;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface PromoCodeListResponse {
+  promoCodes: PromoCode[];
+}
+
+/** What one student pays for one offering once discounts are applied */
+export interface PricedBooking {
+  offeringPrice: number;
+  pricePaid: number;
+  discountAmount: number;
+  pricingRule: PricingRule | null;
+  promoCode: string | null;
+}
+
+export interface PricingQuoteResponse {
+  items: Array<PricedBooking & { offeringId: string; studentIndex: number }>;
+  subtotal: number;
+  discount: number;
+  total: number;
+  currency: string;
+}
+
+/** A named bundle of offerings, such as every week of an intake, sold at one price */
+export interface WorkshopPackage {
+  id: string;
+  name: string;
+  description: string;
+  yearGroup: string;
+  offeringIds: string[];
+  /** Price for one student to attend every offering */
+  price: number;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface PackageWithOfferings extends WorkshopPackage {
+  /** Offerings still on sale, by date; past and inactive ones are left out */
+  offerings: OfferingWithSeats[];
+  /** The offerings' currency, which the package price is in */
+  currency: string;
+  /** The package price, formatted like an offering's `priceLabel` */
+  priceLabel: string;
+  /** What the offerings would cost booked separately */
+  offeringsTotal: number;
+  /** False once any offering is past, inactive or full, as the package can only be booked whole */
+  bookable: boolean;
+}
+
+export interface PackageListResponse {
+  packages: PackageWithOfferings[];
+}
+
+export interface AdminPackageListResponse {
+  packages: WorkshopPackage[];
+}
+
+export const PAYMENT_PLAN = {
+  FULL: 'full',
+  DEPOSIT: 'deposit',
+  INSTALMENTS: 'instalments',
+} as const;
+
+export type PaymentPlan = (typeof PAYMENT_PLAN)[keyof typeof PAYMENT_PLAN];
+
+export interface ScheduledPayment {
+  amount: number;
+  /** YYYY-MM-DD */
+  dueDate: string;
+}
+
+export interface PaymentSchedule {
+  plan: PaymentPlan;
+  /** In order; the first is due at checkout */
+  payments: ScheduledPayment[];
+}
@@ -1,9 +1,94 @@
 import { z } from 'zod';
+import { config } from './config';
+import {
+  AVAILABILITY,
+  OFFERING_SORT,
+  OUTBOX_STATUS,
+  PAYMENT_PLAN,
+  PROMO_CODE_TYPE,
+  STRIPE_EVENT_STATUS,
+} from './types';
 
-export const offeringsQuerySchema = z.object({
-  yearGroup: z.enum(['gcse', 'alevel']),
+const yearGroupIds = config.yearGroups.map((yearGroup) => yearGroup.id);
+
+export const yearGroupSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .refine((val) => yearGroupIds.includes(val), {
+    message: `Unknown year group. Valid year groups: ${yearGroupIds.join(', ')}`,
+  });
+
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const isoDateSchema = z
+  .string()
+  .regex(ISO_DATE_REGEX, 'Must be an ISO date (YYYY-MM-DD)')
+  .refine((val) => {
+    const date = new Date(`${val}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(val);
+  }, { message: 'Must be a valid calendar date' });
+
+export const offeringsQuerySchema = z
+  .object({
+    yearGroup: yearGroupSchema,
+    subject: z.string().trim().min(1).max(100).optional(),
+    intake: z.string().trim().min(1).max(100).optional(),
+    from: isoDateSchema.optional(),
+    to: isoDateSchema.optional(),
+    availability: z.enum([AVAILABILITY.AVAILABLE, AVAILABILITY.FULL]).optional(),
+    sort: z.enum([OFFERING_SORT.DATE, OFFERING_SORT.PRICE, OFFERING_SORT.SUBJECT]).default(OFFERING_SORT.DATE),
+  })
+  .refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+export const offeringFacetsQuerySchema = z.object({
+  yearGroup: yearGroupSchema.optional(),
+});
+
+const offeringFieldsSchema = z.object({
+  offering: z.string().trim().min(1, 'Offering name is required').max(200),
+  intake: z.string().trim().max(100),
+  yearGroup: yearGroupSchema,
+  subject: z.string().trim().min(1, 'Subject is required').max(100),
+  workshopDate: isoDateSchema,
+  sessionTime: z.string().trim().min(1, 'Session time is required').max(100),
+  availability: z.enum([AVAILABILITY.AVAILABLE, AVAILABILITY.FULL, AVAILABILITY.INACTIVE]),
+  price: z.number().positive('Price must be positive'),
+  currency: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z]{3}$/, 'Currency must be a three-letter ISO code, e.g. gbp'),
+  zoomLink: z.string().url('Zoom link must be a valid URL'),
+  capacity: z.number().int().min(0, 'Capacity cannot be negative'),
+  stripePriceId: z.string().trim().max(100),
+  depositAmount: z.number().min(0, 'Deposit cannot be negative'),
+  instalments: z.number().int().min(0).max(12, 'At most 12 instalments'),
+  /** Creates a Stripe Product/Price for the offering and stores its ID in stripe_price_id */
+  createStripePrice: z.boolean(),
 });
 
+export const createOfferingSchema = offeringFieldsSchema.extend({
+  intake: offeringFieldsSchema.shape.intake.default(''),
+  availability: offeringFieldsSchema.shape.availability.default(AVAILABILITY.AVAILABLE),
+  currency: offeringFieldsSchema.shape.currency.default(config.stripe.currency),
+  capacity: offeringFieldsSchema.shape.capacity.default(0),
+  stripePriceId: offeringFieldsSchema.shape.stripePriceId.default(''),
+  depositAmount: offeringFieldsSchema.shape.depositAmount.default(0),
+  instalments: offeringFieldsSchema.shape.instalments.default(0),
+  createStripePrice: offeringFieldsSchema.shape.createStripePrice.default(false),
+}).refine((data) => data.depositAmount < data.price, {
+  message: 'Deposit must be less than the price',
+  path: ['depositAmount'],
+});
+
+export const updateOfferingSchema = offeringFieldsSchema
+  .partial()
+  .refine((data) => Object.keys(data).length > 0, { message: 'At least one field is required' });
+
 const UK_MOBILE_REGEX = /^\+44[0-9]{10}$/;
 
 /** Normalizes phone numbers to E.164 format, converting UK local format (07...) to international (+447...) */
@@ -51,35 +136,176 @@ const contactInputSchema = z.object({
   phone: phoneSchema,
 });
 
-export const bookingRequestSchema = z.object({
-  offeringId: z.string().min(1, 'Offering ID is required'),
+/** The student's own year group defaults to the offering's when omitted */
+const studentInputSchema = contactInputSchema.extend({
+  yearGroup: yearGroupSchema.optional(),
+});
+
+const promoCodeInputSchema = z.string().trim().min(1, 'Promo code is required').max(50);
+
+const bookingContactsSchema = z.object({
   parent: contactInputSchema,
-  student: contactInputSchema,
+  student: studentInputSchema,
+});
+
+/**
+ * One `offeringId`, several `offeringIds` or a `packageId`, for either one
+ * `student` or several `students`. Anything beyond one offering and one
+ * student is booked as an order.
+ */
+export const bookingRequestSchema = bookingContactsSchema
+  .extend({
+    student: studentInputSchema.optional(),
+    students: z
+      .array(studentInputSchema)
+      .min(1, 'At least one student is required')
+      .max(config.orders.maxBookings, `At most ${config.orders.maxBookings} students can be booked together`)
+      .refine((students) => new Set(students.map((s) => s.email.toLowerCase())).size === students.length, {
+        message: 'Each student needs their own email address',
+      })
+      .optional(),
+    offeringId: z.string().min(1, 'Offering ID is required').optional(),
+    offeringIds: z
+      .array(z.string().min(1, 'Offering ID is required'))
+      .min(1, 'At least one offering is required')
+      .max(config.orders.maxBookings, `At most ${config.orders.maxBookings} offerings can be booked together`)
+      .refine((ids) => new Set(ids).size === ids.length, { message: 'Offerings must not repeat' })
+      .optional(),
+    packageId: z.string().min(1, 'Package ID is required').optional(),
+    promoCode: promoCodeInputSchema.optional(),
+    paymentPlan: z
+      .enum([PAYMENT_PLAN.FULL, PAYMENT_PLAN.DEPOSIT, PAYMENT_PLAN.INSTALMENTS])
+      .default(PAYMENT_PLAN.FULL),
+  })
+  .refine(
+    (data) => [data.offeringId, data.offeringIds, data.packageId].filter((v) => v !== undefined).length === 1,
+    { message: 'Provide one of offeringId, offeringIds or packageId', path: ['offeringId'] }
+  )
+  .refine((data) => data.packageId === undefined || data.promoCode === undefined, {
+    message: 'Promo codes cannot be used on packages',
+    path: ['promoCode'],
+  })
+  .refine((data) => (data.student === undefined) !== (data.students === undefined), {
+    message: 'Provide either student or students',
+    path: ['student'],
+  })
+  .refine((data) => data.paymentPlan === PAYMENT_PLAN.FULL || (data.offeringId && data.student), {
+    message: 'Payment plans are only available when booking one workshop for one student',
+    path: ['paymentPlan'],
+  })
+  .refine(
+    (data) => (data.students?.length ?? 1) * (data.offeringIds?.length ?? 1) <= config.orders.maxBookings,
+    { message: `At most ${config.orders.maxBookings} bookings can be made together`, path: ['students'] }
+  );
+
+/** Prices a booking request before it is submitted; students are only counted, for sibling discounts */
+export const pricingQuoteSchema = z
+  .object({
+    offeringId: z.string().min(1, 'Offering ID is required').optional(),
+    offeringIds: z
+      .array(z.string().min(1, 'Offering ID is required'))
+      .min(1, 'At least one offering is required')
+      .max(config.orders.maxBookings)
+      .optional(),
+    studentCount: z.number().int().min(1).max(config.orders.maxBookings).default(1),
+    promoCode: promoCodeInputSchema.optional(),
+  })
+  .refine((data) => (data.offeringId === undefined) !== (data.offeringIds === undefined), {
+    message: 'Provide either offeringId or offeringIds',
+    path: ['offeringId'],
+  })
+  .refine((data) => data.studentCount * (data.offeringIds?.length ?? 1) <= config.orders.maxBookings, {
+    message: `At most ${config.orders.maxBookings} bookings can be made together`,
+    path: ['studentCount'],
+  });
+
+export const waitlistRequestSchema = bookingContactsSchema;
+
+export const packagesQuerySchema = z.object({
+  yearGroup: yearGroupSchema,
+});
+
+export const createPackageSchema = z.object({
+  name: z.string().trim().min(1, 'Package name is required').max(200),
+  description: z.string().trim().max(1000).default(''),
+  yearGroup: yearGroupSchema,
+  offeringIds: z
+    .array(z.string().min(1, 'Offering ID is required'))
+    .min(2, 'A package needs at least two offerings')
+    .max(config.orders.maxBookings, `A package can have at most ${config.orders.maxBookings} offerings`)
+    .refine((ids) => new Set(ids).size === ids.length, { message: 'Offerings must not repeat' }),
+  price: z.number().positive('Price must be positive'),
 });
 
 export const createCheckoutSessionSchema = z.object({
-  bookingId: z.string().min(1, 'Booking ID is required'),
-  customerEmail: z.string().email('Invalid email format'),
-  customerName: z.string().min(1, 'Customer name is required'),
-  priceId: z.string().optional(),
-  amount: z.number().int().positive('Amount must be a positive integer (in pence)').optional(),
-  description: z.string().optional(),
-  parentPhone: z.string().min(1, 'Parent phone is required'),
-  studentName: z.string().min(1, 'Student name is required'),
-  studentEmail: z.string().email('Invalid student email format'),
-  offeringId: z.string().min(1, 'Offering ID is required'),
-  offeringName: z.string().min(1, 'Offering name is required'),
-  offeringSubject: z.string().min(1, 'Offering subject is required'),
-  offeringDate: z.string().min(1, 'Offering date is required'),
-  offeringTime: z.string().min(1, 'Offering time is required'),
-  offeringYearGroup: z.string().min(1, 'Offering year group is required'),
-  offeringZoomLink: z.string().default(''),
-}).refine(
-  (data) => data.priceId || (data.amount && data.description),
-  { message: 'Either priceId or both amount and description are required' }
-);
+  token: z.string().min(1, 'Checkout token is required'),
+});
+
+export const bookingLookupQuerySchema = z
+  .object({
+    sessionId: z.string().min(1).optional(),
+    token: z.string().min(1).optional(),
+  })
+  .refine((data) => data.sessionId || data.token, { message: 'Either session_id or token is required' });
+
+export const cancelBookingSchema = z.object({
+  reason: z.string().max(500).optional(),
+  refundPercent: z.number().min(0).max(100).optional(),
+});
+
+export const stripeEventsQuerySchema = z.object({
+  status: z
+    .enum([
+      STRIPE_EVENT_STATUS.PROCESSING,
+      STRIPE_EVENT_STATUS.PROCESSED,
+      STRIPE_EVENT_STATUS.IGNORED,
+      STRIPE_EVENT_STATUS.FAILED,
+    ])
+    .optional(),
+  type: z.string().trim().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const outboxQuerySchema = z.object({
+  status: z.enum([OUTBOX_STATUS.PENDING, OUTBOX_STATUS.DELIVERED, OUTBOX_STATUS.DEAD]).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const createPromoCodeSchema = z
+  .object({
+    code: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9_-]{3,50}$/, 'Code must be 3-50 letters, digits, dashes or underscores'),
+    type: z.enum([PROMO_CODE_TYPE.PERCENT, PROMO_CODE_TYPE.FIXED]),
+    amount: z.number().positive('Amount must be positive'),
+    maxUses: z.number().int().positive().optional(),
+    expiresAt: z.string().datetime({ offset: true, message: 'expiresAt must be an ISO timestamp' }).optional(),
+  })
+  .refine((data) => data.type !== PROMO_CODE_TYPE.PERCENT || data.amount <= 100, {
+    message: 'A percentage discount cannot exceed 100',
+    path: ['amount'],
+  });
+
+/** GHL workflow payloads carry other fields too; only these two are read */
+export const offeringsCacheInvalidationSchema = z.object({
+  offeringId: z.string().trim().min(1).optional(),
+  yearGroup: z.string().trim().min(1).optional(),
+});
 
 export type OfferingsQuery = z.infer<typeof offeringsQuerySchema>;
+export type OfferingFacetsQuery = z.infer<typeof offeringFacetsQuerySchema>;
 export type ContactInput = z.infer<typeof contactInputSchema>;
 export type BookingRequest = z.infer<typeof bookingRequestSchema>;
+export type WaitlistRequest = z.infer<typeof waitlistRequestSchema>;
 export type CreateCheckoutSessionRequest = z.infer<typeof createCheckoutSessionSchema>;
+export type CancelBookingRequest = z.infer<typeof cancelBookingSchema>;
+export type CreateOfferingRequest = z.infer<typeof createOfferingSchema>;
+export type UpdateOfferingRequest = z.infer<typeof updateOfferingSchema>;
+export type StripeEventsQuery = z.infer<typeof stripeEventsQuerySchema>;
+export type OutboxQuery = z.infer<typeof outboxQuerySchema>;
+export type OfferingsCacheInvalidation = z.infer<typeof offeringsCacheInvalidationSchema>;
+export type PricingQuoteRequest = z.infer<typeof pricingQuoteSchema>;
+export type CreatePromoCodeRequest = z.infer<typeof createPromoCodeSchema>;
+export type PackagesQuery = z.infer<typeof packagesQuerySchema>;
+export type CreatePackageRequest = z.infer<typeof createPackageSchema>;
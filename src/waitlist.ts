@@ -0,0 +1,115 @@
+import { config } from './config';
+import { getTodayDateString } from './dates';
+import {
+  fetchOfferingById,
+  fetchContactById,
+  findBookingsByOffering,
+  updateBooking,
+} from './ghl';
+import { countSeatsTaken, syncOfferingAvailability } from './capacity';
+import { createHoldExpiry, listSeatHolds, recordSeatHold } from './holds';
+import { buildCheckoutUrl } from './checkout-url';
+import { buildBookingEventPayload } from './booking-events';
+import { withLock } from './lock';
+import { priceBooking } from './pricing';
+import { enqueueBookingWebhook } from './outbox';
+import type { Booking, WorkshopOffering } from './types';
+import { AVAILABILITY, BOOKING_WEBHOOK_EVENTS, PAYMENT_STATUS } from './types';
+
+function compareQueueOrder(a: Booking, b: Booking): number {
+  return a.waitlistPosition - b.waitlistPosition || a.bookingId.localeCompare(b.bookingId);
+}
+
+export function getWaitlistQueue(bookings: Booking[]): Booking[] {
+  return bookings.filter((b) => b.paymentStatus === PAYMENT_STATUS.WAITLISTED).sort(compareQueueOrder);
+}
+
+/** Positions only ever grow, so entries that were promoted or left never share a slot with new joiners */
+export function getNextWaitlistPosition(bookings: Booking[]): number {
+  return bookings.reduce((max, b) => Math.max(max, b.waitlistPosition), 0) + 1;
+}
+
+/** Returns the entry's 1-based place in the queue, or null if it is no longer waiting */
+export function getWaitlistPosition(entry: Booking, bookings: Booking[]): number | null {
+  if (entry.paymentStatus !== PAYMENT_STATUS.WAITLISTED) return null;
+
+  return getWaitlistQueue(bookings).filter((b) => b.id !== entry.id && compareQueueOrder(b, entry) < 0).length + 1;
+}
+
+async function promoteEntry(entry: Booking, offering: WorkshopOffering): Promise<void> {
+  // Priced afresh without the original request, so only the early-bird rule can apply
+  const pricing = priceBooking(offering, { today: getTodayDateString() });
+  // The offer is a fresh single booking, so nothing carries over from an
+  // order, package or payment plan the entry was once part of
+  const fields = {
+    paymentStatus: PAYMENT_STATUS.PENDING,
+    offeringPrice: pricing.offeringPrice,
+    pricePaid: pricing.pricePaid,
+    currency: offering.currency,
+    discountAmount: pricing.discountAmount,
+    pricingRule: pricing.pricingRule ?? '',
+    promoCode: '',
+    expiresAt: createHoldExpiry(config.waitlist.offerMinutes),
+    orderId: '',
+    packageId: '',
+    paymentPlan: '',
+    amountReceived: 0,
+    paymentPlanReference: '',
+    paymentMismatch: '',
+  };
+  const promoted: Booking = { ...entry, ...fields };
+
+  await updateBooking(promoted.id, fields);
+  recordSeatHold(promoted.id, offering.id, promoted.expiresAt);
+  console.log(`Waitlist: Booking ${promoted.bookingId} promoted on offering ${offering.id}`);
+
+  const student = await fetchContactById(promoted.studentContactId);
+
+  const checkoutUrl = buildCheckoutUrl(promoted);
+
+  // The seat is already held for them, so a failed notification is logged
+  // rather than undoing the promotion; the hold simply lapses if unused.
+  try {
+    enqueueBookingWebhook(
+      buildBookingEventPayload(BOOKING_WEBHOOK_EVENTS.WAITLIST_PROMOTED, promoted, offering, student, {
+        checkout: { url: checkoutUrl, expiresAt: promoted.expiresAt },
+      }),
+      promoted.id,
+      // An entry can be promoted again after a lapsed offer; each offer is its own notification
+      `${BOOKING_WEBHOOK_EVENTS.WAITLIST_PROMOTED}:${promoted.bookingId}:${promoted.expiresAt}`
+    );
+  } catch (error) {
+    console.error(`Waitlist: Failed to queue promotion notice for booking ${promoted.bookingId}:`, error);
+  }
+}
+
+/**
+ * Called whenever a booking gives up its seat. Offers any free seats on a
+ * capacity-limited offering to the front of its waitlist, each with a
+ * time-limited checkout link, then resyncs the offering's availability.
+ */
+export async function releaseSeats(offeringId: string): Promise<void> {
+  // Two releases for the same offering must not promote the same entry twice
+  await withLock(`offering:${offeringId}`, async () => {
+    const offering = await fetchOfferingById(offeringId);
+
+    if (
+      offering &&
+      offering.capacity &&
+      offering.availability !== AVAILABILITY.INACTIVE &&
+      offering.workshopDate >= getTodayDateString()
+    ) {
+      const bookings = await findBookingsByOffering(offering.id);
+      const freeSeats = Math.max(0, offering.capacity - countSeatsTaken(offering.id, bookings));
+      // An entry promoted moments ago can still show as waitlisted in GHL's search
+      const held = new Set(listSeatHolds(offering.id));
+      const queue = getWaitlistQueue(bookings).filter((entry) => !held.has(entry.id));
+
+      for (const entry of queue.slice(0, freeSeats)) {
+        await promoteEntry(entry, offering);
+      }
+    }
+
+    await syncOfferingAvailability(offeringId);
+  });
+}